@@ -0,0 +1,96 @@
+import {
+  Chart,
+  BarController,
+  BarElement,
+  BubbleController,
+  PointElement,
+  LinearScale,
+  Tooltip,
+  BasicPlatform,
+  ChartConfiguration,
+  ChartType,
+} from 'chart.js';
+import { HierarchicalScale } from '../scale';
+import type { IEnhancedChartDataSet, ILabelNode, IRawLabelNode, IValueNode } from '../model';
+
+Chart.register(BarController, BarElement, BubbleController, PointElement, LinearScale, Tooltip, HierarchicalScale);
+
+/**
+ * context which ignores all drawing calls and measures every text with a width of 10
+ */
+function fakeContext(canvas: unknown) {
+  const target: Record<string | symbol, unknown> = {};
+  return new Proxy(target, {
+    get(t, p) {
+      if (p in t) {
+        return t[p];
+      }
+      if (p === 'canvas') {
+        return canvas;
+      }
+      if (p === 'measureText') {
+        return () => ({ width: 10 });
+      }
+      return () => undefined;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * canvas whose context ignores all drawing calls
+ */
+function fakeCanvas() {
+  const canvas = { width: 400, height: 300, style: {}, getContext: () => ctx };
+  const ctx = fakeContext(canvas);
+  return canvas as unknown as HTMLCanvasElement;
+}
+
+/**
+ * canvas element attached to the document whose context ignores all drawing calls, requires a DOM environment
+ */
+export function domCanvas() {
+  const canvas = document.createElement('canvas');
+  canvas.width = 400;
+  canvas.height = 300;
+  const ctx = fakeContext(canvas);
+  canvas.getContext = (() => ctx) as unknown as typeof canvas.getContext;
+  document.body.appendChild(canvas);
+  return canvas;
+}
+
+/**
+ * creates a chart of the given configuration, by default on a fake canvas
+ */
+export function createChartOf<T extends ChartType>(config: ChartConfiguration<T>, canvas = fakeCanvas()) {
+  // no DOM events involved also within jsdom
+  const withPlatform = { ...config, platform: BasicPlatform };
+  return new Chart(canvas, withPlatform as ChartConfiguration<T>);
+}
+
+/**
+ * creates a bar chart with a hierarchical x-axis by default
+ */
+export function createChart(
+  labels: (IRawLabelNode | string)[],
+  tree: (IValueNode | number)[],
+  scales: Record<string, Record<string, unknown>> = { x: { type: 'hierarchical' } },
+  options: Record<string, unknown> = {},
+  canvas?: HTMLCanvasElement
+) {
+  const dataset = { label: 'a', tree, data: [] } as unknown as IEnhancedChartDataSet;
+  return createChartOf(
+    {
+      type: 'bar',
+      data: { labels, datasets: [dataset] },
+      options: { animation: false, responsive: false, scales, ...options },
+    },
+    canvas
+  );
+}
+
+/**
+ * labels of the currently visible nodes
+ */
+export function visibleLabels(chart: Chart) {
+  return (chart.data.labels as ILabelNode[]).map((d) => d.label);
+}
@@ -1,2 +1,43 @@
 export * from './scale/hierarchical';
 // export * from './plugin/hierarchical';
+export {
+  filterNodes,
+  expandNode,
+  collapseNode,
+  focusNode,
+  resetFocus,
+  focusBack,
+  focusForward,
+  expandAll,
+  collapseToLevel,
+  getViewState,
+  setViewState,
+  hierarchicalTooltipCallbacks,
+} from './plugin/hierarchical';
+export { indicatorRenderers } from './plugin/indicators';
+export { fromRecords, findNodeById, findNodeByPath, pathOf } from './utils';
+export type {
+  ILabelNode,
+  IRawLabelNode,
+  IValueNode,
+  IAggregation,
+  IAggregateFunction,
+  IRecordAccessor,
+  IRecordValue,
+  IRecordsData,
+  ILoadedChildren,
+  ISortOption,
+  ISortSpec,
+  ISortComparator,
+  ITopNSpec,
+  IFilterPredicate,
+  IViewState,
+  IHierarchyStyles,
+  IHierarchyStyleContext,
+  IHierarchyStyleOption,
+  IIndicatorStyle,
+  IIndicatorType,
+  IIndicatorContext,
+  IIndicatorBounds,
+  IIndicatorRenderer,
+} from './model';
@@ -1,7 +1,15 @@
-import type { Chart, ChartData, ChartDataset } from 'chart.js';
+import type { Chart, ChartData, ChartDataset, FontSpec } from 'chart.js';
 
-export interface ILabelNode {
+export interface ILabelNode extends Partial<IHierarchyStyles> {
   label: string;
+  /**
+   * optional stable identifier of this node
+   */
+  id?: string;
+  /**
+   * labels of all parents and the node itself, e.g. ['EMEA', 'DE', 'Berlin']
+   */
+  path: string[];
   expand: boolean | 'focus';
   level: number;
 
@@ -16,39 +24,289 @@ export interface ILabelNode {
 
   index: number;
   relIndex: number;
+  /**
+   * index among its siblings in the original labels, used to match the value nodes by position
+   */
+  dataIndex: number;
+  /**
+   * index after the last descendant in the flat array, i.e. the sub tree of this node spans [index, endIndex)
+   */
+  endIndex: number;
 
   value?: string;
+
+  /**
+   * whether this node has children which are not loaded yet
+   */
+  lazy?: boolean;
+  /**
+   * whether the children of this lazy node are currently loading
+   */
+  loading?: boolean;
+  /**
+   * whether this node is a generated 'Other' group of the top N option, it has no counterpart in the data
+   */
+  synthetic?: boolean;
 }
 
-export interface IRawLabelNode {
+export interface IRawLabelNode extends Partial<IHierarchyStyles> {
   label: string;
+  /**
+   * optional stable identifier, e.g. for looking up the node or matching value nodes
+   */
+  id?: string;
   expand?: boolean | 'focus';
   hidden?: boolean;
   children?: (IRawLabelNode | string)[];
+  /**
+   * marks that this node has children which are loaded on demand using the `loadChildren` option of the scale
+   */
+  lazy?: boolean;
+}
+
+/**
+ * styles of the hierarchy indicators, a label node can override them for itself and its descendants
+ */
+export interface IHierarchyStyles {
+  hierarchyBoxSize: number;
+  hierarchyBoxColor: string;
+  hierarchySpanColor: string;
+  hierarchySpanWidth: number;
+  hierarchyLabelFont: Partial<FontSpec>;
+  hierarchyLabelColor: string;
+  /**
+   * color of the band behind an expanded group, null for none
+   */
+  hierarchyBandColor: string | null;
+}
+
+/**
+ * context of a scriptable hierarchy style
+ */
+export interface IHierarchyStyleContext {
+  chart: Chart;
+  node: ILabelNode;
+  level: number;
+  expand: boolean | 'focus';
+}
+
+/**
+ * a hierarchy style given as single value, per level array, or function of the node
+ */
+export declare type IHierarchyStyleOption<T> = T | readonly T[] | ((context: IHierarchyStyleContext) => T);
+
+export declare type IIndicatorType = 'expand' | 'collapse' | 'focus' | 'loading';
+
+/**
+ * built-in indicator styles: squares with +, - and a dot, triangles, rounded pills with the number of children, or
+ * text glyphs
+ */
+export declare type IIndicatorStyle = 'box' | 'chevron' | 'pill' | 'text';
+
+/**
+ * arguments of an indicator renderer
+ */
+export interface IIndicatorContext {
+  chart: Chart;
+  ctx: CanvasRenderingContext2D;
+  type: IIndicatorType;
+  node: ILabelNode;
+  /**
+   * whether the scale is vertical
+   */
+  vertical: boolean;
+  /**
+   * whether the scale is static, i.e. the indicator marks the start or end of a group instead of a button
+   */
+  static: boolean;
+  /**
+   * anchor of the indicator, the top center for horizontal scales and the right middle for vertical ones
+   */
+  x: number;
+  y: number;
+  /**
+   * the resolved `hierarchyBoxSize` of the node
+   */
+  size: number;
+}
+
+/**
+ * rectangle covered by an indicator, in the same coordinate system as its anchor
+ */
+export interface IIndicatorBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * renders an indicator using the current stroke and fill styles of the context and returns the covered bounds
+ */
+export declare type IIndicatorRenderer = (context: IIndicatorContext) => IIndicatorBounds;
+
+/**
+ * result of loading the children of a lazy node
+ */
+export interface ILoadedChildren {
+  /**
+   * the labels of the children
+   */
+  labels: (IRawLabelNode | string)[];
+  /**
+   * for each dataset (by dataset index) the value nodes of the children
+   */
+  data?: ReadonlyArray<ReadonlyArray<IValueNode | number>>;
 }
 
 export declare type ILabelNodes = ReadonlyArray<ILabelNode>;
 
 export interface IValueNode {
-  children: ReadonlyArray<IValueNode | number>;
-  value: number;
+  children?: ReadonlyArray<IValueNode | number>;
+  /**
+   * value of this node, when missing it is computed from its children using the configured aggregation
+   */
+  value?: number;
+  /**
+   * key to match this node with its label node (its id or label) in the 'key' data binding mode
+   */
+  key?: string;
 }
 
+/**
+ * custom reducer computing the value of a group node given the values of its leaves,
+ * a descendant with an explicit value stands for its sub tree
+ */
+export declare type IAggregateFunction = (values: number[]) => number;
+
+export declare type IAggregation = 'sum' | 'mean' | 'min' | 'max' | 'count' | IAggregateFunction;
+
 export function isValueNode(node: IValueNode | any): node is IValueNode {
-  return node != null && Array.isArray(node.children);
+  return node != null && typeof node === 'object' && (Array.isArray(node.children) || 'value' in node || 'key' in node);
+}
+
+/**
+ * whether value nodes are matched to their label nodes by their position ('index') or by their key ('key')
+ */
+export declare type IDataBinding = 'index' | 'key';
+
+/**
+ * attribute name or function to extract a value from a flat record
+ */
+export declare type IRecordAccessor<T, R> = keyof T | ((record: T) => R);
+
+export declare type IRecordValue<T> = IRecordAccessor<T, number> | { label: string; value: IRecordAccessor<T, number> };
+
+/**
+ * labels and datasets derived from flat records, ready to be used as chart data
+ */
+export interface IRecordsData {
+  labels: (IRawLabelNode | string)[];
+  datasets: { label: string; tree: (IValueNode | number)[] }[];
+}
+
+/**
+ * comparator for sorting sibling nodes, the value function resolves the value of a node in the given dataset (default 0)
+ */
+export declare type ISortComparator = (
+  a: ILabelNode,
+  b: ILabelNode,
+  value: (node: ILabelNode, dataset?: number) => number | null
+) => number;
+
+export interface ISortSpec {
+  /**
+   * whether to sort by label or by the value of a dataset
+   */
+  by: 'label' | 'value';
+  /**
+   * @default 'asc'
+   */
+  order?: 'asc' | 'desc';
+  /**
+   * index of the dataset whose values are used when sorting by value
+   * @default 0
+   */
+  dataset?: number;
+}
+
+export declare type ISortOption = 'label' | 'value' | ISortSpec | ISortComparator;
+
+/**
+ * callback of a hierarchy interaction, before callbacks returning false cancel the interaction
+ */
+export declare type IHierarchyCallback<R = void> = (node: ILabelNode, path: string[], chart: Chart) => R;
+
+/**
+ * serializable expand and focus state of a hierarchy, nodes are identified by their path of labels
+ */
+export interface IViewState {
+  /**
+   * paths of the expanded nodes
+   */
+  expanded: string[][];
+  /**
+   * path of the focused node
+   */
+  focus?: string[];
+}
+
+/**
+ * predicate whether a node matches a filter
+ */
+export declare type IFilterPredicate = (node: ILabelNode) => boolean;
+
+export interface ITopNSpec {
+  /**
+   * number of children to keep
+   */
+  count: number;
+  /**
+   * index of the dataset whose values determine the largest children
+   * @default 0
+   */
+  dataset?: number;
+  /**
+   * label of the group of the remaining children
+   * @default 'Other'
+   */
+  label?: string;
 }
 
 export interface IEnhancedChartDataSet extends ChartDataset<'bar'> {
   tree: IValueNode[];
+  /**
+   * aggregation used for group nodes without a value, overrides the one of the scale
+   */
+  aggregate?: IAggregation | null;
+}
+
+/**
+ * key of the chart data labels a scale is using, the x and y labels are used for matrix like charts
+ */
+export declare type ILabelsKey = 'labels' | 'xLabels' | 'yLabels';
+
+export interface IHierarchyState {
+  flatLabels?: ILabelNodes;
+  _verify?: string;
+  rootNodes?: ILabelNodes;
 }
 
 export interface IEnhancedChart extends Chart<any, any, ILabelNode> {
-  data: ChartData & {
-    flatLabels?: ILabelNodes;
-    labels: ILabelNode[];
-    _verify?: string;
-    rootNodes?: ILabelNodes;
-
-    datasets: IEnhancedChartDataSet[];
-  };
+  data: ChartData &
+    IHierarchyState & {
+      labels: ILabelNode[];
+      xLabels?: ILabelNode[];
+      yLabels?: ILabelNode[];
+      /**
+       * state of the hierarchy of the x labels
+       */
+      xHierarchy?: IHierarchyState;
+      /**
+       * state of the hierarchy of the y labels
+       */
+      yHierarchy?: IHierarchyState;
+
+      datasets: IEnhancedChartDataSet[];
+    };
 }
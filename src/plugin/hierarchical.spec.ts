@@ -0,0 +1,662 @@
+import type { Chart } from 'chart.js';
+import type { HierarchicalScale } from '../scale';
+import hierarchicalPlugin, {
+  expandNode,
+  collapseNode,
+  focusNode,
+  resetFocus,
+  collapseToLevel,
+  focusBack,
+  focusForward,
+  setViewState,
+  getViewState,
+  hierarchicalTooltipCallbacks,
+} from './hierarchical';
+import type { IIndicatorContext, ILabelNode, ILoadedChildren } from '../model';
+import { createChart, domCanvas, visibleLabels } from '../__tests__/createChart';
+
+/**
+ * event at the row of the given level at the label of the given scale
+ */
+function eventAt(chart: Chart, type: string, scaleId: string, label: string, level: number) {
+  const scale = chart.scales[scaleId] as HierarchicalScale;
+  const node = (scale.getLabels() as unknown as ILabelNode[]).find((d) => d.label === label)!;
+  const origin = scale._hierarchyOrigin();
+  return {
+    type,
+    x: scale.left + node.center,
+    y: origin.y + level * scale.options.hierarchyBoxLineHeight + 2,
+  };
+}
+
+/**
+ * clicks the row of the given level at the label of the given scale
+ */
+function clickRow(chart: Chart, scaleId: string, label: string, level: number) {
+  const event = eventAt(chart, 'click', scaleId, label, level);
+  hierarchicalPlugin.beforeEvent!(chart, { event } as never, {});
+}
+
+/**
+ * moves the mouse to the row of the given level at the label of the given scale
+ * @returns whether the chart has to be rendered again
+ */
+function hoverRow(chart: Chart, scaleId: string, label: string, level: number) {
+  const args = { event: eventAt(chart, 'mousemove', scaleId, label, level), changed: false };
+  hierarchicalPlugin.afterEvent!(chart, args as never, {});
+  return args.changed;
+}
+
+const labels = [{ label: 'A', children: ['A1', 'A2'] }, { label: 'B', children: ['B1'] }, 'C'];
+const tree = [{ value: 3, children: [1, 2] }, { value: 4, children: [4] }, 5];
+
+describe('secondary scale', () => {
+  const scales = {
+    x: { type: 'hierarchical' },
+    x2: { type: 'hierarchical', axis: 'x', position: 'bottom' },
+  };
+
+  test('shares the labels', () => {
+    const chart = createChart(labels, tree, scales);
+    expect(visibleLabels(chart)).toEqual(['A', 'B', 'C']);
+    expect((chart.scales.x2.getLabels() as unknown as ILabelNode[]).map((d) => d.label)).toEqual(['A', 'B', 'C']);
+    expect(chart.data.datasets[0].data).toEqual([3, 4, 5]);
+  });
+
+  test('handles clicks', () => {
+    const chart = createChart(labels, tree, scales);
+    clickRow(chart, 'x2', 'B', 0);
+    expect(visibleLabels(chart)).toEqual(['A', 'B1', 'C']);
+    clickRow(chart, 'x', 'A', 0);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B1', 'C']);
+    expect(chart.data.datasets[0].data).toEqual([1, 2, 4, 5]);
+  });
+});
+
+describe('programmatic api', () => {
+  const deep = [{ label: 'A', children: [{ label: 'A1', children: ['A11', 'A12'] }, 'A2'] }, 'B'];
+  const deepTree = [{ value: 6, children: [{ value: 3, children: [1, 2] }, 3] }, 4];
+
+  test('reveals the parents of a path', () => {
+    const chart = createChart(deep, deepTree);
+    expandNode(chart, ['A', 'A1']);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2', 'B']);
+    expect(chart.data.datasets[0].data).toEqual([1, 2, 3, 4]);
+    collapseNode(chart, ['A']);
+    expect(visibleLabels(chart)).toEqual(['A', 'B']);
+    expandNode(chart, ['A', 'missing']);
+    expect(visibleLabels(chart)).toEqual(['A', 'B']);
+  });
+
+  test('updates the arrays in place', () => {
+    const chart = createChart(deep, deepTree);
+    const { labels: current } = chart.data;
+    const { data } = chart.data.datasets[0];
+    focusNode(chart, ['A', 'A1']);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12']);
+    expect(chart.data.labels).toBe(current);
+    expect(chart.data.datasets[0].data).toBe(data);
+    resetFocus(chart);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2', 'B']);
+    collapseToLevel(chart, 1);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B']);
+    expect(chart.data.datasets[0].data).toBe(data);
+    expect(data).toEqual([3, 3, 4]);
+  });
+
+  test('vetoed by callbacks', () => {
+    const chart = createChart(deep, deepTree, {
+      x: { type: 'hierarchical', onBeforeExpand: (node: ILabelNode) => node.label !== 'A1' },
+    });
+    expandNode(chart, ['A', 'A1']);
+    expect(visibleLabels(chart)).toEqual(['A', 'B']);
+    expandNode(chart, ['A']);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B']);
+  });
+});
+
+describe('focus history', () => {
+  const deep = [{ label: 'A', children: [{ label: 'A1', children: ['A11', 'A12'] }, 'A2'] }, 'B'];
+  const deepTree = [{ value: 6, children: [{ value: 3, children: [1, 2] }, 3] }, 4];
+
+  test('back and forward', () => {
+    const chart = createChart(deep, deepTree);
+    focusNode(chart, ['A']);
+    focusNode(chart, ['A', 'A1']);
+    expect(focusBack(chart)).toBe(true);
+    // A1 stays expanded
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2']);
+    expect(focusBack(chart)).toBe(true);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2', 'B']);
+    expect(focusBack(chart)).toBe(false);
+    expect(focusForward(chart)).toBe(true);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2']);
+  });
+
+  test('records focus changes of other calls', () => {
+    const chart = createChart(deep, deepTree);
+    focusNode(chart, ['A']);
+    collapseToLevel(chart, 1);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B']);
+    expect(focusBack(chart)).toBe(true);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2']);
+
+    setViewState(chart, { expanded: [['A']], focus: ['A', 'A1'] });
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12']);
+    collapseNode(chart, ['A', 'A1']);
+    expect(focusBack(chart)).toBe(true);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12']);
+    expect(focusForward(chart)).toBe(true);
+    expect(focusForward(chart)).toBe(false);
+  });
+});
+
+describe('lazy loading', () => {
+  const lazy = [{ label: 'A', lazy: true }, 'B'];
+  const lazyTree = [3, 4];
+
+  function deferred() {
+    let resolve: (value: ILoadedChildren) => void = () => undefined;
+    const promise = new Promise<ILoadedChildren>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  }
+
+  test('expands the loaded children', async () => {
+    const loading = deferred();
+    const chart = createChart(lazy, lazyTree, { x: { type: 'hierarchical', loadChildren: () => loading.promise } });
+    expandNode(chart, ['A']);
+    loading.resolve({ labels: ['A1', 'A2'], data: [[1, 2]] });
+    await loading.promise;
+    await Promise.resolve();
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B']);
+    expect(chart.data.datasets[0].data).toEqual([1, 2, 4]);
+  });
+
+  test('destroyed while pending', async () => {
+    const loading = deferred();
+    const errors: unknown[] = [];
+    const chart = createChart(lazy, lazyTree, {
+      x: {
+        type: 'hierarchical',
+        loadChildren: () => loading.promise,
+        onLoadError: (_: ILabelNode, e: unknown) => errors.push(e),
+      },
+    });
+    expandNode(chart, ['A']);
+    const node = (chart.data.labels as ILabelNode[])[0];
+    expect(node.loading).toBe(true);
+    chart.destroy();
+    loading.resolve({ labels: ['A1', 'A2'], data: [[1, 2]] });
+    await loading.promise;
+    await Promise.resolve();
+    expect(node.loading).toBe(false);
+    expect(errors).toEqual([]);
+  });
+
+  test('reports errors of the success path', async () => {
+    const loading = deferred();
+    const errors: [string, unknown][] = [];
+    const chart = createChart(lazy, lazyTree, {
+      x: {
+        type: 'hierarchical',
+        loadChildren: () => loading.promise,
+        onExpand: () => {
+          throw new Error('expand');
+        },
+        onLoadError: (node: ILabelNode, e: unknown) => errors.push([node.label, e]),
+      },
+    });
+    expandNode(chart, ['A']);
+    loading.resolve({ labels: ['A1', 'A2'], data: [[1, 2]] });
+    await loading.promise;
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(errors).toEqual([['A', new Error('expand')]]);
+  });
+});
+
+describe('preserve expand state', () => {
+  const declared = () => [{ label: 'A', expand: true, children: ['A1', 'A2'] }, { label: 'B', children: ['B1'] }, 'C'];
+  const values = () => [{ value: 3, children: [1, 2] }, { value: 4, children: [4] }, 5];
+
+  function refresh(chart: Chart, next: ReturnType<typeof declared>, nextTree: ReturnType<typeof values>) {
+    chart.data.labels = next;
+    (chart.data.datasets[0] as unknown as { tree: unknown }).tree = nextTree;
+    chart.update();
+  }
+
+  test('keeps a node collapsed by the user', () => {
+    const chart = createChart(declared(), values(), { x: { type: 'hierarchical', preserveExpandState: true } });
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+    const b = (chart.data.labels as ILabelNode[])[2];
+    collapseNode(chart, ['A']);
+    expandNode(chart, ['B']);
+    const updated = values();
+    updated[1] = { value: 5, children: [5] };
+    refresh(chart, declared(), updated);
+    expect(visibleLabels(chart)).toEqual(['A', 'B1', 'C']);
+    expect(chart.data.datasets[0].data).toEqual([3, 5, 5]);
+    // the same node objects
+    expect(b.expand).toBe(true);
+  });
+
+  test('opt-in', () => {
+    const chart = createChart(declared(), values());
+    collapseNode(chart, ['A']);
+    refresh(chart, declared(), values());
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+  });
+});
+
+describe('top n', () => {
+  const wide = [{ label: 'R', children: ['r1', 'r2', 'r3', 'r4'] }, 'S'];
+  const wideTree = [{ value: 10, children: [4, 3, 2, 1] }, 5];
+
+  test('path of the Other group', () => {
+    const chart = createChart(wide, wideTree, { x: { type: 'hierarchical', topN: 2 } });
+    expandNode(chart, ['R']);
+    expect(visibleLabels(chart)).toEqual(['r1', 'r2', 'Other (2)', 'S']);
+    expandNode(chart, ['R', 'Other']);
+    expect(visibleLabels(chart)).toEqual(['r1', 'r2', 'r3', 'r4', 'S']);
+    expect(chart.data.datasets[0].data).toEqual([4, 3, 2, 1, 5]);
+  });
+
+  test('view state of the Other group', () => {
+    const chart = createChart(wide, wideTree, { x: { type: 'hierarchical', topN: 2 } });
+    setViewState(chart, { expanded: [['R'], ['R', 'Other']] });
+    expect(visibleLabels(chart)).toEqual(['r1', 'r2', 'r3', 'r4', 'S']);
+    const state = getViewState(chart);
+    expect(state).toEqual({ expanded: [['R'], ['R', 'Other']] });
+    collapseNode(chart, ['R', 'Other']);
+    expect(visibleLabels(chart)).toEqual(['r1', 'r2', 'Other (2)', 'S']);
+    setViewState(chart, state!);
+    expect(visibleLabels(chart)).toEqual(['r1', 'r2', 'r3', 'r4', 'S']);
+  });
+});
+
+describe('callbacks', () => {
+  function createTracked(veto: string[] = []) {
+    const calls: string[] = [];
+    const track = (action: string) => (_: ILabelNode, path: string[]) => {
+      calls.push(`${action} ${path.join('/')}`);
+      return !veto.includes(action);
+    };
+    const actions = ['Expand', 'Collapse', 'Focus', 'ZoomOut'];
+    const callbacks = Object.fromEntries(
+      actions.flatMap((action) => [
+        [`onBefore${action}`, track(`before${action}`)],
+        [`on${action}`, track(action.toLowerCase())],
+      ])
+    );
+    const chart = createChart(labels, tree, { x: { type: 'hierarchical', ...callbacks } });
+    return { chart, calls };
+  }
+
+  test('notified about clicks', () => {
+    const { chart, calls } = createTracked();
+    clickRow(chart, 'x', 'A', 0);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+    // the last child focuses its parent
+    clickRow(chart, 'x', 'A2', 0);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2']);
+    clickRow(chart, 'x', 'A2', 0);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+    // the first child collapses its parent
+    clickRow(chart, 'x', 'A1', 0);
+    expect(visibleLabels(chart)).toEqual(['A', 'B', 'C']);
+    expect(calls).toEqual([
+      'beforeExpand A',
+      'expand A',
+      'beforeFocus A',
+      'focus A',
+      'beforeZoomOut A',
+      'zoomout A',
+      'beforeCollapse A',
+      'collapse A',
+    ]);
+  });
+
+  test('vetoed clicks', () => {
+    const { chart, calls } = createTracked(['beforeCollapse', 'beforeFocus']);
+    clickRow(chart, 'x', 'A', 0);
+    clickRow(chart, 'x', 'A1', 0);
+    clickRow(chart, 'x', 'A2', 0);
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+    expect(calls).toEqual(['beforeExpand A', 'expand A', 'beforeCollapse A', 'beforeFocus A']);
+  });
+});
+
+describe('keyboard', () => {
+  function createKeyboardChart() {
+    const chart = createChart(labels, tree, { x: { type: 'hierarchical', keyboard: true } }, {}, domCanvas());
+    const press = (key: string) => chart.canvas.dispatchEvent(new KeyboardEvent('keydown', { key }));
+    return { chart, press, liveRegion: chart.canvas.nextSibling as HTMLElement };
+  }
+
+  test('moves the focus and expands', () => {
+    const { chart, press, liveRegion } = createKeyboardChart();
+    expect(chart.canvas.tabIndex).toBe(0);
+    expect(liveRegion.getAttribute('aria-live')).toBe('polite');
+    press('ArrowRight');
+    expect(liveRegion.textContent).toBe('B, level 1, collapsed, a 4');
+    press('Enter');
+    expect(visibleLabels(chart)).toEqual(['A', 'B1', 'C']);
+    expect(liveRegion.textContent).toBe('B, level 1, expanded, a 4');
+    press('ArrowDown');
+    expect(liveRegion.textContent).toBe('B1, level 2, a 4');
+    press('ArrowRight');
+    expect(liveRegion.textContent).toBe('C, level 1, a 5');
+    press('Home');
+    expect(liveRegion.textContent).toBe('A, level 1, collapsed, a 3');
+    press(' ');
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B1', 'C']);
+  });
+
+  test('focuses and zooms out', () => {
+    const { chart, press, liveRegion } = createKeyboardChart();
+    press('f');
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2']);
+    expect(liveRegion.textContent).toBe('A, level 1, focused, a 3');
+    press('Escape');
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+  });
+
+  test('removed with the chart', () => {
+    const { chart, liveRegion } = createKeyboardChart();
+    expect(liveRegion.isConnected).toBe(true);
+    chart.destroy();
+    expect(liveRegion.isConnected).toBe(false);
+  });
+});
+
+describe('hover', () => {
+  const activeOf = (chart: Chart) => chart.getActiveElements().map((d) => d.index);
+
+  test('changes the cursor and highlights the group', () => {
+    const chart = createChart(labels, tree, { x: { type: 'hierarchical', hoverHighlightGroup: true } });
+    expandNode(chart, ['A']);
+    // the collapse button of A
+    expect(hoverRow(chart, 'x', 'A1', 0)).toBe(true);
+    expect(chart.canvas.style.cursor).toBe('pointer');
+    expect(activeOf(chart)).toEqual([0, 1]);
+    expect(hoverRow(chart, 'x', 'A2', 0)).toBe(false);
+    // the expand button of B
+    hoverRow(chart, 'x', 'B', 0);
+    expect(chart.canvas.style.cursor).toBe('pointer');
+    expect(activeOf(chart)).toEqual([2]);
+    // the row of the leaf A1 has no button
+    hoverRow(chart, 'x', 'A1', 1);
+    expect(chart.canvas.style.cursor).toBe('');
+    expect(activeOf(chart)).toEqual([0]);
+
+    const args = { event: { type: 'mouseout', x: 0, y: 0 }, changed: false };
+    hierarchicalPlugin.afterEvent!(chart, args as never, {});
+    expect(args.changed).toBe(true);
+    expect(chart.canvas.style.cursor).toBe('');
+    expect(activeOf(chart)).toEqual([]);
+  });
+
+  test('no highlight by default', () => {
+    const chart = createChart(labels, tree);
+    hoverRow(chart, 'x', 'B', 0);
+    expect(chart.canvas.style.cursor).toBe('pointer');
+    expect(activeOf(chart)).toEqual([]);
+  });
+});
+
+describe('tooltip', () => {
+  function createTooltipChart() {
+    const chart = createChart(
+      labels,
+      tree,
+      { x: { type: 'hierarchical', tooltipPath: true, groupTooltip: true } },
+      { plugins: { tooltip: { callbacks: hierarchicalTooltipCallbacks } } }
+    );
+    expandNode(chart, ['A']);
+    return chart;
+  }
+  const contentOf = (chart: Chart) => {
+    const { title, body } = chart.tooltip!;
+    return { title, lines: body.flatMap((d) => d.lines), after: body.flatMap((d) => d.after) };
+  };
+
+  test('path and share of an item', () => {
+    const chart = createTooltipChart();
+    chart.tooltip!.setActiveElements([{ datasetIndex: 0, index: 1 }], { x: 0, y: 0 });
+    expect(contentOf(chart)).toEqual({ title: ['A / A2'], lines: ['a: 2'], after: ['A: 3 (66.7%)'] });
+    chart.tooltip!.setActiveElements([{ datasetIndex: 0, index: 3 }], { x: 0, y: 0 });
+    expect(contentOf(chart)).toEqual({ title: ['C'], lines: ['a: 5'], after: [] });
+  });
+
+  test('group on the axis', () => {
+    const chart = createTooltipChart();
+    hoverRow(chart, 'x', 'A1', 0);
+    expect(contentOf(chart)).toEqual({ title: ['A'], lines: ['a: 3'], after: [] });
+    hoverRow(chart, 'x', 'B', 1);
+    expect(chart.tooltip!.getActiveElements()).toEqual([]);
+  });
+});
+
+describe('breadcrumb', () => {
+  const deep = [{ label: 'A', children: [{ label: 'A1', children: ['A11', 'A12'] }, 'A2'] }, 'B'];
+  const deepTree = [{ value: 6, children: [{ value: 3, children: [1, 2] }, 3] }, 4];
+
+  interface ICrumbBox {
+    top: number;
+    bottom: number;
+    crumbs: { node: ILabelNode | null; left: number; right: number }[];
+  }
+
+  const boxOf = (chart: Chart) => chart.boxes.find((d) => 'crumbs' in d) as unknown as ICrumbBox;
+  const crumbsOf = (chart: Chart) => boxOf(chart).crumbs.map((d) => d.node?.label ?? null);
+
+  function clickCrumb(chart: Chart, index: number) {
+    const box = boxOf(chart);
+    const crumb = box.crumbs[index];
+    const event = { type: 'click', x: (crumb.left + crumb.right) / 2, y: (box.top + box.bottom) / 2 };
+    hierarchicalPlugin.beforeEvent!(chart, { event } as never, {});
+  }
+
+  test('zooms out by clicks', () => {
+    const chart = createChart(deep, deepTree, { x: { type: 'hierarchical', breadcrumb: true } });
+    expect(crumbsOf(chart)).toEqual([null]);
+    focusNode(chart, ['A', 'A1']);
+    expect(crumbsOf(chart)).toEqual([null, 'A', 'A1']);
+    // the current one
+    clickCrumb(chart, 2);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12']);
+    clickCrumb(chart, 1);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2']);
+    expect(crumbsOf(chart)).toEqual([null, 'A']);
+    clickCrumb(chart, 0);
+    expect(visibleLabels(chart)).toEqual(['A11', 'A12', 'A2', 'B']);
+    expect(crumbsOf(chart)).toEqual([null]);
+  });
+});
+
+describe('indicator styles', () => {
+  const styled = [
+    { label: 'A', children: ['A1', 'A2'], hierarchyBoxColor: 'red' },
+    { label: 'B', children: [{ label: 'B1', children: ['x', 'y'] }, 'B2'] },
+    'C',
+  ];
+  const styledTree = [{ value: 3, children: [1, 2] }, { value: 4, children: [{ value: 3, children: [1, 2] }, 1] }, 5];
+
+  test('per level, scriptable and per node', () => {
+    const drawn: string[] = [];
+    const chart = createChart(styled, styledTree, {
+      x: {
+        type: 'hierarchical',
+        hierarchyBoxSize: [14, 8],
+        hierarchyBoxColor: ({ level, expand }: { level: number; expand: boolean | 'focus' }) =>
+          expand ? 'blue' : `gray${level}`,
+        hierarchyIndicator: ({ ctx, type, node, size, x, y }: IIndicatorContext) => {
+          drawn.push(`${type} ${node.label} ${size} ${ctx.strokeStyle}`);
+          return { left: x, top: y, width: size, height: size };
+        },
+      },
+    });
+    expect(drawn).toEqual(['expand A 14 red', 'expand B 14 gray0']);
+    drawn.length = 0;
+    expandNode(chart, ['B']);
+    expect(drawn).toEqual(['expand A 14 red', 'collapse B 14 blue', 'focus B 14 blue', 'expand B1 8 gray1']);
+  });
+});
+
+describe('indicator renderer', () => {
+  /**
+   * renders the indicator next to its anchor
+   */
+  function createShifted() {
+    const anchors = new Map<string, { x: number; y: number }>();
+    const chart = createChart(labels, tree, {
+      x: {
+        type: 'hierarchical',
+        hierarchyIndicator: ({ type, node, x, y }: IIndicatorContext) => {
+          anchors.set(`${type} ${node.label}`, { x, y });
+          return { left: x + 20, top: y, width: 10, height: 10 };
+        },
+      },
+    });
+    const click = (key: string) => {
+      const origin = (chart.scales.x as HierarchicalScale)._hierarchyOrigin();
+      const { x, y } = anchors.get(key)!;
+      const event = { type: 'click', x: origin.x + x + 25, y: origin.y + y + 5 };
+      hierarchicalPlugin.beforeEvent!(chart, { event } as never, {});
+    };
+    return { chart, click };
+  }
+
+  test('hit tested using the reported bounds', () => {
+    const { chart, click } = createShifted();
+    // the row at the anchor is just the span
+    clickRow(chart, 'x', 'A', 0);
+    expect(visibleLabels(chart)).toEqual(['A', 'B', 'C']);
+    click('expand A');
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2', 'B', 'C']);
+    click('focus A');
+    expect(visibleLabels(chart)).toEqual(['A1', 'A2']);
+  });
+
+  test('built-in styles', () => {
+    const chart = createChart(labels, tree, { x: { type: 'hierarchical', hierarchyIndicator: 'chevron' } });
+    clickRow(chart, 'x', 'B', 0);
+    expect(visibleLabels(chart)).toEqual(['A', 'B1', 'C']);
+  });
+});
+
+describe('group label overflow', () => {
+  const long = 'A group label way too long';
+  const overflowLabels = [{ label: long, expand: true, children: ['A1', 'A2'] }, 'B', 'C'];
+  const overflowTree = [{ value: 3, children: [1, 2] }, 4, 5];
+
+  /**
+   * draws the chart with texts being 10 pixels per character
+   * @returns the drawn texts
+   */
+  function drawTexts(chart: Chart) {
+    const texts: string[] = [];
+    const ctx = chart.ctx as unknown as Record<string, unknown>;
+    // the ticks are label nodes
+    ctx.measureText = (text: unknown) => ({ width: String(text).length * 10 });
+    ctx.fillText = (text: unknown) => texts.push(String(text));
+    chart.draw();
+    return texts;
+  }
+
+  test('shortened and shown in full on hover', () => {
+    const chart = createChart(overflowLabels, overflowTree, {
+      x: { type: 'hierarchical', hierarchyLabelOverflow: 'ellipsis' },
+    });
+    const group = drawTexts(chart).find((d) => d.endsWith('…'))!;
+    expect(group).toBeDefined();
+    expect(long.startsWith(group.slice(0, -1))).toBe(true);
+    const { length } = (chart.scales.x as HierarchicalScale).getLabels();
+    expect(group.length * 10).toBeLessThanOrEqual(chart.scales.x.width * (2 / length));
+
+    hoverRow(chart, 'x', 'A1', 0);
+    expect(chart.canvas.title).toBe(long);
+    hoverRow(chart, 'x', 'B', 0);
+    expect(chart.canvas.title).toBe('');
+  });
+
+  test('hidden', () => {
+    const chart = createChart(overflowLabels, overflowTree, {
+      x: { type: 'hierarchical', hierarchyLabelOverflow: 'hide' },
+    });
+    expect(drawTexts(chart).filter((d) => d.startsWith('A '))).toEqual([]);
+    hoverRow(chart, 'x', 'A2', 0);
+    expect(chart.canvas.title).toBe(long);
+  });
+
+  test('drawn as is by default', () => {
+    const chart = createChart(overflowLabels, overflowTree);
+    expect(drawTexts(chart)).toContain(long);
+    hoverRow(chart, 'x', 'A1', 0);
+    expect(chart.canvas.title ?? '').toBe('');
+  });
+});
+
+describe('group bands', () => {
+  const banded = [
+    { label: 'A', expand: true, children: [{ label: 'A1', expand: true, children: ['x', 'y'] }, 'A2'] },
+    { label: 'B', expand: true, children: ['B1', 'B2'] },
+    'C',
+  ];
+  const bandedTree = [
+    { value: 3, children: [{ value: 1, children: [0.5, 0.5] }, 2] },
+    { value: 4, children: [4, 2] },
+    5,
+  ];
+
+  /**
+   * draws the bands
+   * @returns the filled rectangles along with their color
+   */
+  function drawBands(chart: Chart) {
+    const rects: [string, number, number, number, number][] = [];
+    const ctx = chart.ctx as unknown as Record<string, unknown>;
+    ctx.fillRect = (x: number, y: number, w: number, h: number) => rects.push([String(ctx.fillStyle), x, y, w, h]);
+    hierarchicalPlugin.beforeDraw!(chart, {} as never, {});
+    return rects;
+  }
+
+  /**
+   * extent of the given visible labels along the axis
+   */
+  function extentOf(chart: Chart, first: string, last: string) {
+    const scale = chart.scales.x as HierarchicalScale;
+    const nodes = scale.getLabels() as unknown as ILabelNode[];
+    const a = nodes.find((d) => d.label === first)!;
+    const b = nodes.find((d) => d.label === last)!;
+    const start = scale.left + a.center - a.width;
+    return [start, scale.left + b.center + b.width - start];
+  }
+
+  test('per level colors', () => {
+    const chart = createChart(banded, bandedTree, { x: { type: 'hierarchical', hierarchyBandColor: ['red', 'blue'] } });
+    const { top, bottom } = chart.chartArea;
+    const [ax, aw] = extentOf(chart, 'x', 'A2');
+    const [a1x, a1w] = extentOf(chart, 'x', 'y');
+    const [bx, bw] = extentOf(chart, 'B1', 'B2');
+    expect(drawBands(chart)).toEqual([
+      ['red', ax, top, aw, bottom - top],
+      ['blue', a1x, top, a1w, bottom - top],
+      ['red', bx, top, bw, bottom - top],
+    ]);
+  });
+
+  test('alternate', () => {
+    const chart = createChart(banded, bandedTree, {
+      x: { type: 'hierarchical', hierarchyBandColor: 'gray', hierarchyBandAlternate: true },
+    });
+    expect(drawBands(chart).map((d) => d[1])).toEqual([extentOf(chart, 'x', 'A2')[0], extentOf(chart, 'x', 'y')[0]]);
+  });
+
+  test('none by default', () => {
+    const chart = createChart(banded, bandedTree);
+    expect(drawBands(chart)).toEqual([]);
+  });
+});
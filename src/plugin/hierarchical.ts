@@ -1,6 +1,16 @@
 /* eslint-disable no-param-reassign */
-import { defaults, Plugin, Chart, Color, FontSpec } from 'chart.js';
-import { valueOrDefault, toFont } from 'chart.js/helpers';
+import {
+  defaults,
+  layouts,
+  Plugin,
+  Chart,
+  Color,
+  FontSpec,
+  LayoutItem,
+  TooltipItem,
+  ChartTypeRegistry,
+} from 'chart.js';
+import { valueOrDefault, toFont, formatNumber } from 'chart.js/helpers';
 
 import {
   toNodes,
@@ -12,10 +22,56 @@ import {
   spanLogic,
   determineVisible,
   flatChildren,
+  IResolveOptions,
+  insertChildren,
+  insertValueChildren,
+  sortNodes,
+  groupOthers,
+  ungroupOthers,
+  applyFilter,
+  revertFilter,
+  toFilterPredicate,
+  IFilterState,
+  findNodeByPath,
+  isInSubTree,
+  refreshNodes,
+  pathOf,
+  toViewState,
+  applyViewState,
+  navigate,
+  INavigation,
+  ellipsize,
+  wrapText,
 } from '../utils';
-import type { ILabelNodes, ILabelNode, IEnhancedChart, IEnhancedChartDataSet } from '../model';
+import type {
+  ILabelNodes,
+  ILabelNode,
+  IEnhancedChart,
+  IEnhancedChartDataSet,
+  IFilterPredicate,
+  ILabelsKey,
+  IHierarchyState,
+  IViewState,
+  ILoadedChildren,
+  IIndicatorType,
+  IIndicatorBounds,
+} from '../model';
+import { indicatorRenderers } from './indicators';
 import type { HierarchicalScale } from '../scale';
 
+/**
+ * a hierarchical scale along with the labels it is using
+ */
+interface IHierarchy {
+  scale: HierarchicalScale;
+  key: ILabelsKey;
+  state: IHierarchyState;
+  /**
+   * whether the dataset values are resolved along this hierarchy, false for matrix like charts
+   */
+  values: boolean;
+}
+
 function generateCode(labels: ReadonlyArray<ILabelNode | string>) {
   // label, expand, children
   let code = '';
@@ -24,7 +80,7 @@ function generateCode(labels: ReadonlyArray<ILabelNode | string>) {
       code += label;
       return;
     }
-    code += `(l=${label.label},e=${label.expand},c=[`;
+    code += `(l=${label.label},i=${label.id ?? ''},e=${label.expand},c=[`;
     (label.children || []).forEach(encode);
     code += '])';
   };
@@ -33,81 +89,221 @@ function generateCode(labels: ReadonlyArray<ILabelNode | string>) {
   return code;
 }
 
-function isValidScaleType(chart: Chart, scale: string) {
-  const scales = chart.config.options?.scales as any;
-  if (!scales || !Object.prototype.hasOwnProperty.call(scales, scale)) {
+/**
+ * checks whether this plugin needs to be enabled based on whether one of the configured scales is hierarchical
+ */
+function enabled(chart: Chart) {
+  const scales = chart.config.options?.scales as Record<string, { type?: string } | undefined> | undefined;
+  if (!scales) {
     return false;
   }
-  return Object.prototype.hasOwnProperty.call(scales[scale], 'type');
+  return Object.keys(scales).some((id) => scales[id]?.type === 'hierarchical');
 }
 
 /**
- * checks whether this plugin needs to be enabled based on whether one is a hierarchical axis
+ * finds the hierarchical scales of the chart, scales using the same labels, e.g. a secondary axis, share their state
  */
-function enabled(chart: Chart) {
-  const { options } = chart.config;
-  if (!options || !Object.prototype.hasOwnProperty.call(options, 'scales')) {
-    return null;
+function findHierarchies(chart: Chart): IHierarchy[] {
+  const scales = Object.keys(chart.scales)
+    .map((d) => chart.scales[d])
+    .filter((d) => d.type === 'hierarchical') as HierarchicalScale[];
+  const hierarchies = scales.map((scale) => ({
+    scale,
+    key: scale._labelsKey(),
+    state: scale._hierarchy(),
+    values: false,
+  }));
+  // with more than one used labels the data are points which are parsed by the scales
+  const keys = new Set(hierarchies.map((d) => d.key));
+  if (keys.size === 1) {
+    hierarchies.forEach((d) => {
+      d.values = true;
+    });
   }
-  const scales = chart.config.options?.scales as any;
-  if (scales && isValidScaleType(chart, 'x') && scales.x.type === 'hierarchical') {
-    return 'x';
+  return hierarchies;
+}
+
+/**
+ * the first hierarchical scale of each used labels, which prepares the labels for all scales using them
+ */
+function primaryHierarchies(chart: Chart): IHierarchy[] {
+  return findHierarchies(chart).filter((h, i, hierarchies) => hierarchies.findIndex((d) => d.key === h.key) === i);
+}
+
+function labelsOf(chart: IEnhancedChart, h: IHierarchy): ILabelNode[] {
+  return (chart.data[h.key] ?? []) as ILabelNode[];
+}
+
+/**
+ * last converted nodes of a chart, kept outside of the data to survive replacing the whole data object
+ */
+const previousFlatLabels = new WeakMap<Chart, Partial<Record<ILabelsKey, ILabelNodes>>>();
+
+/**
+ * dataset trees which have already been resolved, to recognize when the user replaces them
+ */
+const resolvedTrees = new WeakSet<object>();
+
+/**
+ * active filter of a chart, the state is missing when the filter has to be applied again
+ */
+const filters = new WeakMap<
+  Chart,
+  Partial<Record<ILabelsKey, { predicate: IFilterPredicate; state?: IFilterState }>>
+>();
+
+function previousOf(chart: Chart) {
+  if (!previousFlatLabels.has(chart)) {
+    previousFlatLabels.set(chart, {});
   }
-  if (scales && isValidScaleType(chart, 'y') && scales.y.type === 'hierarchical') {
-    return 'y';
+  return previousFlatLabels.get(chart)!;
+}
+
+function filtersOf(chart: Chart) {
+  if (!filters.has(chart)) {
+    filters.set(chart, {});
   }
-  return null;
+  return filters.get(chart)!;
+}
+
+function dataChanged(chart: IEnhancedChart) {
+  return chart.data.datasets.some((d: IEnhancedChartDataSet) => d.tree == null || !resolvedTrees.has(d.tree));
+}
+
+/**
+ * determines how the values of the given dataset are resolved, the dataset aggregation wins over the scale one
+ */
+function resolveOptionsOf(scale: HierarchicalScale, dataset: IEnhancedChartDataSet): IResolveOptions {
+  return {
+    aggregation: dataset.aggregate !== undefined ? dataset.aggregate : scale.options.aggregate,
+    dataBinding: scale.options.dataBinding,
+    missingValue: scale.options.missingValue,
+  };
+}
+
+/**
+ * sorts the nodes, groups the smallest children, and filters the nodes according to the scale options and active filter
+ * @param previous previous version of the nodes to preserve the expand state of the 'Other' groups
+ */
+function arrange(chart: IEnhancedChart, h: IHierarchy, flat: ILabelNodes, previous?: ILabelNodes) {
+  const sortOption = h.scale.options.sort;
+  const topN = h.scale.options.topN;
+  const filter = filtersOf(chart)[h.key];
+  let next = flat;
+  if (filter?.state) {
+    next = revertFilter(filter.state);
+    previous = next;
+  }
+  if (sortOption || topN != null || next.some((d) => d.synthetic)) {
+    const datasets = chart.data.datasets as IEnhancedChartDataSet[];
+    const resolveOptions = datasets.map((d) => resolveOptionsOf(h.scale, d));
+    next = ungroupOthers(next);
+    const value = (node: ILabelNode, dataset: number) =>
+      h.values && datasets[dataset] ? resolve(node, next, datasets[dataset].tree, resolveOptions[dataset]) : null;
+
+    if (sortOption) {
+      next = sortNodes(next, sortOption, value);
+    }
+    if (topN != null) {
+      const spec = typeof topN === 'number' ? { count: topN } : topN;
+      next = groupOthers(next, spec, (node) => value(node, spec.dataset ?? 0), previous);
+    }
+  }
+  if (filter) {
+    const r = applyFilter(next, filter.predicate);
+    filter.state = r.state;
+    next = r.flat;
+  }
+  return next;
 }
 
 /**
  * checks whether the data has been changed by the user and all caches are invalid
  */
-function check(chart: IEnhancedChart) {
-  if (chart.data.labels && chart.data._verify === generateCode(chart.data.labels)) {
+function check(chart: IEnhancedChart, h: IHierarchy) {
+  const labels = chart.data[h.key];
+  const labelsChanged = !labels || h.state._verify !== generateCode(labels);
+  if (!labelsChanged && !(h.values && dataChanged(chart))) {
     return;
   }
 
-  // convert labels to nodes
-  const flat = toNodes(chart.data.labels);
-  chart.data.flatLabels = flat;
-  chart.data.rootNodes = flat.filter((d) => d.parent === -1);
+  if (h.values) {
+    chart.data.datasets.forEach((dataset: IEnhancedChartDataSet) => {
+      if (dataset.tree == null) {
+        dataset.tree = (dataset.data as any[]).slice();
+      }
+    });
+  }
+
+  let flat = h.state.flatLabels ?? [];
+  let previous = previousOf(chart)[h.key];
+  const filter = filtersOf(chart)[h.key];
+  if (filter?.state) {
+    // start from the unfiltered nodes
+    flat = revertFilter(filter.state);
+    previous = flat;
+    filter.state = undefined;
+  }
+  if (labelsChanged) {
+    // convert labels to nodes
+    flat = toNodes(labels ?? [], h.scale.options.preserveExpandState ? previous : undefined);
+  }
+  setNodes(chart, h, arrange(chart, h, flat, previous));
+}
+
+/**
+ * sets the given nodes as the current state of the hierarchy
+ */
+function setFlatLabels(chart: IEnhancedChart, h: IHierarchy, flat: ILabelNodes) {
+  previousOf(chart)[h.key] = flat;
+  h.state.flatLabels = flat;
+  h.state.rootNodes = flat.filter((d) => d.parent === -1);
+}
+
+/**
+ * sets the given nodes and updates the visible labels and data accordingly
+ */
+function setNodes(chart: IEnhancedChart, h: IHierarchy, flat: ILabelNodes) {
+  setFlatLabels(chart, h, flat);
+  recordFocus(chart as unknown as Chart, h);
 
   const labels = determineVisible(flat);
 
-  (chart.data.labels as any) = labels;
-  updateVerifyCode(chart);
+  (chart.data[h.key] as any) = labels;
+  updateVerifyCode(chart, h);
 
+  if (!h.values) {
+    return;
+  }
   // convert the data tree to the flat visible counterpart
   chart.data.datasets.forEach((dataset: IEnhancedChartDataSet) => {
-    if (dataset.tree == null) {
-      dataset.tree = (dataset.data as any[]).slice();
-    }
-    dataset.data = labels.map((l) => resolve(l, flat, dataset.tree));
+    resolvedTrees.add(dataset.tree);
+    const resolveOptions = resolveOptionsOf(h.scale, dataset);
+    dataset.data = labels.map((l) => resolve(l, flat, dataset.tree, resolveOptions));
   });
 
-  updateAttributes(chart);
+  updateAttributes(chart, h);
 }
 
 /**
  * a verify code is used to recognize when the user changes the data
  * @param {*} chart
  */
-function updateVerifyCode(chart: IEnhancedChart) {
-  chart.data._verify = generateCode(chart.data.labels);
+function updateVerifyCode(chart: IEnhancedChart, h: IHierarchy) {
+  h.state._verify = generateCode(labelsOf(chart, h));
 }
 
 /**
  * updates the attributes according to config, similar to data sync
  */
-function updateAttributes(chart: IEnhancedChart) {
-  const scale = findScale(chart);
-  if (!scale) {
+function updateAttributes(chart: IEnhancedChart, h: IHierarchy) {
+  if (!h.values) {
     return;
   }
-  const { attributes } = scale.options;
+  const { attributes } = h.scale.options;
 
-  const nodes = chart.data.labels as ILabelNodes;
-  const flat = chart.data.flatLabels ?? [];
+  const nodes = labelsOf(chart, h);
+  const flat = h.state.flatLabels ?? [];
 
   Object.keys(attributes).forEach((attr) => {
     chart.data.datasets.forEach((d) => {
@@ -128,41 +324,69 @@ function updateAttributes(chart: IEnhancedChart) {
   });
 }
 
-function findScale(chart: Chart<any, unknown[], unknown>) {
-  const scales = Object.keys(chart.scales).map((d) => chart.scales[d]);
-  return scales.find((d) => d.type === 'hierarchical') as HierarchicalScale | undefined;
+declare type IHierarchyAction = 'Expand' | 'Collapse' | 'Focus' | 'ZoomOut';
+
+/**
+ * asks the before callback of the scale whether the interaction is allowed
+ */
+function allowed(chart: IEnhancedChart, h: IHierarchy, action: IHierarchyAction, node: ILabelNode) {
+  const callback = h.scale.options[`onBefore${action}` as const];
+  return !callback || callback(node, pathOf(node), chart as unknown as Chart) !== false;
+}
+
+/**
+ * notifies the callback of the scale about a finished interaction
+ */
+function notify(chart: IEnhancedChart, h: IHierarchy, action: IHierarchyAction, node: ILabelNode) {
+  h.scale.options[`on${action}` as const]?.(node, pathOf(node), chart as unknown as Chart);
 }
 
-function postDataUpdate(chart: IEnhancedChart) {
-  updateVerifyCode(chart);
-  updateAttributes(chart);
+function postDataUpdate(chart: IEnhancedChart, h: IHierarchy) {
+  recordFocus(chart as unknown as Chart, h);
+  updateVerifyCode(chart, h);
+  updateAttributes(chart, h);
 
   chart.update();
 }
 
-function expandCollapse(chart: IEnhancedChart, index: number, count: number, toAdd: ILabelNodes) {
-  const labels = chart.data.labels as ILabelNode[];
-  const flatLabels = chart.data.flatLabels ?? [];
+/**
+ * replaces the given range of the visible labels and their data
+ * @returns the removed labels
+ */
+function spliceLabels(chart: IEnhancedChart, h: IHierarchy, index: number, count: number, toAdd: ILabelNodes) {
+  const labels = labelsOf(chart, h);
+  const flatLabels = h.state.flatLabels ?? [];
   const data = chart.data.datasets as IEnhancedChartDataSet[];
 
   // use splice since Chart.js is tracking the array using this method to have a proper animation
   const removed = labels.splice(index, count, ...toAdd);
+  // update since line doesn't call it by itself
+  h.scale.determineDataLimits();
+
+  if (h.values) {
+    data.forEach((dataset) => {
+      const resolveOptions = resolveOptionsOf(h.scale, dataset);
+      const toAddData = toAdd.map((d) => resolve(d, flatLabels, dataset.tree, resolveOptions));
+      dataset.data?.splice(index, count, ...toAddData);
+    });
+  }
+  return removed;
+}
+
+function expandCollapse(chart: IEnhancedChart, h: IHierarchy, index: number, count: number, toAdd: ILabelNodes) {
+  const removed = spliceLabels(chart, h, index, count, toAdd);
   removed.forEach((d) => {
     d.hidden = true;
   });
   toAdd.forEach((d) => {
     d.hidden = false;
   });
-  // update since line doesn't call it by itself
-  findScale(chart)?.determineDataLimits();
-
-  data.forEach((dataset) => {
-    const toAddData = toAdd.map((d) => resolve(d, flatLabels, dataset.tree));
-    dataset.data?.splice(index, count, ...toAddData);
-  });
 }
 
-function collapse(chart: IEnhancedChart, index: number, parent: ILabelNode) {
+function collapse(chart: IEnhancedChart, h: IHierarchy, index: number, parent: ILabelNode) {
+  if (!allowed(chart, h, 'Collapse', parent)) {
+    return;
+  }
   const count = countExpanded(parent);
   // collapse sub structures, too
   parent.children.forEach((c) =>
@@ -170,20 +394,98 @@ function collapse(chart: IEnhancedChart, index: number, parent: ILabelNode) {
       d.expand = false;
     })
   );
-  expandCollapse(chart, index, count, [parent]);
+  expandCollapse(chart, h, index, count, [parent]);
   parent.expand = false;
 
-  postDataUpdate(chart);
+  postDataUpdate(chart, h);
+  notify(chart, h, 'Collapse', parent);
+}
+
+/**
+ * loads the children of a lazy node and expands it afterwards
+ */
+function loadChildren(chart: IEnhancedChart, h: IHierarchy, node: ILabelNode) {
+  const loader = h.scale.options.loadChildren;
+  if (!loader || node.loading) {
+    return;
+  }
+  // the chart might have been destroyed while loading
+  const destroyed = () => chart.ctx == null;
+  const failed = (error: unknown) => {
+    node.loading = false;
+    if (!destroyed()) {
+      chart.draw();
+    }
+    h.scale.options.onLoadError?.(node, error, chart as unknown as Chart);
+  };
+  let loading: Promise<ILoadedChildren>;
+  try {
+    loading = Promise.resolve(loader(node, chart as unknown as Chart));
+  } catch (error) {
+    failed(error);
+    return;
+  }
+  node.loading = true;
+  // show pending indicator
+  chart.draw();
+
+  loading
+    .then((loaded) => {
+      node.loading = false;
+      if (destroyed()) {
+        return;
+      }
+      const flat = h.state.flatLabels ?? [];
+      if (!flat.includes(node) || !node.lazy) {
+        // labels have been replaced in the meantime
+        return;
+      }
+      let next = insertChildren(flat, node, loaded.labels);
+
+      if (h.values) {
+        const { dataBinding } = h.scale.options;
+        (chart.data.datasets as IEnhancedChartDataSet[]).forEach((dataset, i) => {
+          insertValueChildren(dataset.tree, node, next, loaded.data?.[i] ?? [], dataBinding);
+        });
+      }
+
+      next = arrange(chart, h, next, flat);
+      h.state.flatLabels = next;
+      previousOf(chart)[h.key] = next;
+
+      const index = labelsOf(chart, h).indexOf(node);
+      if (index >= 0 && node.children.length > 0) {
+        showChildren(chart, h, index, node);
+      } else {
+        postDataUpdate(chart, h);
+      }
+    })
+    .catch(failed);
 }
 
-function expand(chart: IEnhancedChart, index: number, node: ILabelNode) {
-  expandCollapse(chart, index, 1, node.children);
+function showChildren(chart: IEnhancedChart, h: IHierarchy, index: number, node: ILabelNode) {
+  expandCollapse(chart, h, index, 1, node.children);
   node.expand = true;
 
-  postDataUpdate(chart);
+  postDataUpdate(chart, h);
+  notify(chart, h, 'Expand', node);
+}
+
+function expand(chart: IEnhancedChart, h: IHierarchy, index: number, node: ILabelNode) {
+  if (!allowed(chart, h, 'Expand', node)) {
+    return;
+  }
+  if (node.lazy) {
+    loadChildren(chart, h, node);
+    return;
+  }
+  showChildren(chart, h, index, node);
 }
 
-function zoomIn(chart: IEnhancedChart, lastIndex: number, parent: ILabelNode, flat: ILabelNodes) {
+function zoomIn(chart: IEnhancedChart, h: IHierarchy, lastIndex: number, parent: ILabelNode, flat: ILabelNodes) {
+  if (!allowed(chart, h, 'Focus', parent)) {
+    return;
+  }
   const count = countExpanded(parent);
   // reset others
   flat.forEach((d) => {
@@ -195,26 +497,31 @@ function zoomIn(chart: IEnhancedChart, lastIndex: number, parent: ILabelNode, fl
 
   const index = lastIndex - count + 1;
 
-  const { labels } = chart.data;
+  const labels = labelsOf(chart, h);
   labels.splice(lastIndex + 1, labels.length);
   labels.splice(0, index);
   // update since line doesn't call it by itself
-  findScale(chart)?.determineDataLimits();
+  h.scale.determineDataLimits();
 
-  const data = chart.data.datasets;
-  data.forEach((dataset) => {
-    if (dataset.data) {
-      dataset.data.splice(lastIndex + 1, dataset.data.length);
-      dataset.data.splice(0, index);
-    }
-  });
+  if (h.values) {
+    chart.data.datasets.forEach((dataset) => {
+      if (dataset.data) {
+        dataset.data.splice(lastIndex + 1, dataset.data.length);
+        dataset.data.splice(0, index);
+      }
+    });
+  }
 
-  postDataUpdate(chart);
+  postDataUpdate(chart, h);
+  notify(chart, h, 'Focus', parent);
 }
 
-function zoomOut(chart: IEnhancedChart, parent: ILabelNode) {
-  const labels = chart.data.labels as ILabelNode[];
-  const flatLabels = chart.data.flatLabels ?? [];
+function zoomOut(chart: IEnhancedChart, h: IHierarchy, parent: ILabelNode) {
+  if (!allowed(chart, h, 'ZoomOut', parent)) {
+    return;
+  }
+  const labels = labelsOf(chart, h);
+  const flatLabels = h.state.flatLabels ?? [];
 
   parent.expand = true;
   const nextLabels = flatLabels.filter((d) => !d.hidden);
@@ -224,50 +531,78 @@ function zoomOut(chart: IEnhancedChart, parent: ILabelNode) {
   labels.splice(labels.length, 0, ...nextLabels.slice(index + count));
   labels.splice(0, 0, ...nextLabels.slice(0, index));
   // update since line doesn't call it by itself
-  findScale(chart)?.determineDataLimits();
-
-  const data = chart.data.datasets as IEnhancedChartDataSet[];
-  data.forEach((dataset) => {
-    const toAddBefore = nextLabels.slice(0, index).map((d) => resolve(d, flatLabels, dataset.tree));
-    const toAddAfter = nextLabels.slice(index + count).map((d) => resolve(d, flatLabels, dataset.tree));
-
-    if (dataset.data) {
-      dataset.data.splice(dataset.data.length, 0, ...toAddAfter);
-      dataset.data.splice(0, 0, ...toAddBefore);
-    }
-  });
+  h.scale.determineDataLimits();
+
+  if (h.values) {
+    (chart.data.datasets as IEnhancedChartDataSet[]).forEach((dataset) => {
+      const resolveOptions = resolveOptionsOf(h.scale, dataset);
+      const toAddBefore = nextLabels.slice(0, index).map((d) => resolve(d, flatLabels, dataset.tree, resolveOptions));
+      const toAddAfter = nextLabels
+        .slice(index + count)
+        .map((d) => resolve(d, flatLabels, dataset.tree, resolveOptions));
+
+      if (dataset.data) {
+        dataset.data.splice(dataset.data.length, 0, ...toAddAfter);
+        dataset.data.splice(0, 0, ...toAddBefore);
+      }
+    });
+  }
 
-  postDataUpdate(chart);
+  postDataUpdate(chart, h);
+  notify(chart, h, 'ZoomOut', parent);
 }
 
 function resolveElement(event: { x: number; y: number }, scale: HierarchicalScale) {
   const hor = scale.isHorizontal();
-  const offset = hor ? scale.bottom + scale.options.padding : scale.left - scale.options.padding;
+  const origin = scale._hierarchyOrigin();
+  const offset = hor ? origin.y : origin.x;
   if ((hor && event.y <= offset) || (!hor && event.x > offset)) {
     return null;
   }
   const index = scale.getValueForPixel(hor ? event.x - scale.left : event.y - scale.top);
+  if (index < 0) {
+    return null;
+  }
   return {
     offset,
     index,
   };
 }
 
-function handleClickEvents(
+/**
+ * result of hit testing the hierarchy indicators
+ */
+interface IHit {
+  /**
+   * visible label at the position and its index
+   */
+  label: ILabelNode;
+  index: number;
+  /**
+   * node whose row has been hit, i.e. a parent of the label or the label itself
+   */
+  node: ILabelNode;
+  /**
+   * action of the button at the position, null for a group span
+   */
+  action: 'collapse' | 'zoomIn' | 'zoomOut' | 'expand' | null;
+}
+
+function hitTest(
   chart: Chart,
-  _event: unknown,
+  h: IHierarchy,
   elem: { offset: number; index: number },
   offsetDelta: number,
   inRange: (v: number) => boolean
-) {
+): IHit | null {
   const cc = chart as unknown as IEnhancedChart;
   let { offset } = elem;
 
   const { index } = elem;
-  const flat = cc.data.flatLabels ?? [];
-  const label = cc.data.labels?.[index] as unknown as ILabelNode;
+  const flat = h.state.flatLabels ?? [];
+  const label = labelsOf(cc, h)[index];
   if (!label) {
-    return;
+    return null;
   }
   const parents = parentsOf(label, flat);
 
@@ -283,15 +618,13 @@ function handleClickEvents(
 
     // first child of expanded parent
     if (isParentOfFirstChild && node.relIndex === 0 && parent.expand === true) {
-      collapse(cc, index, parent);
-      return;
+      return { label, index, node: parent, action: 'collapse' };
     }
     const isLastChildOfParent = lastOfLevel(node, flat) === label; // leaf = current node
 
     // last index of focussed parent
     if (isLastChildOfParent && parent.expand === 'focus') {
-      zoomOut(cc, parent);
-      return;
+      return { label, index, node: parent, action: 'zoomOut' };
     }
     // last index of expanded parent
     if (
@@ -299,291 +632,1433 @@ function handleClickEvents(
       parent.expand === true &&
       flatChildren(parent, flat).every((d) => d.expand !== 'focus')
     ) {
-      zoomIn(cc, index, parent, flat);
-      return;
+      return { label, index, node: parent, action: 'zoomIn' };
     }
+    // span of the parent
+    return { label, index, node: parent, action: null };
   }
 
-  if (label.children.length > 0 && inRange(offset)) {
-    // expand
-    expand(cc, index, label);
+  if (inRange(offset)) {
+    return { label, index, node: label, action: label.children.length > 0 || label.lazy ? 'expand' : null };
   }
+  return null;
 }
 
-const hierarchicalPlugin: Plugin = {
-  id: 'hierarchical',
-
-  beforeUpdate(chart: Chart): void {
-    if (!enabled(chart)) {
-      return;
-    }
-    check(chart as unknown as IEnhancedChart);
-  },
+function handleClickEvents(chart: Chart, h: IHierarchy, hit: IHit) {
+  const cc = chart as unknown as IEnhancedChart;
+  switch (hit.action) {
+    case 'collapse':
+      collapse(cc, h, hit.index, hit.node);
+      break;
+    case 'zoomOut':
+      zoomOut(cc, h, hit.node);
+      break;
+    case 'zoomIn':
+      zoomIn(cc, h, hit.index, hit.node, h.state.flatLabels ?? []);
+      break;
+    case 'expand':
+      expand(cc, h, hit.index, hit.node);
+      break;
+    default:
+  }
+}
 
-  /**
-   * draw the hierarchy indicators
-   */
-  beforeDatasetsDraw(chart: Chart): void {
-    if (!enabled(chart)) {
-      return;
-    }
-    const cc = chart as unknown as IEnhancedChart;
-    const scale = findScale(chart);
-    const { ctx } = chart;
-    if (!scale || !ctx) {
-      return;
-    }
-    const flat = cc.data.flatLabels ?? [];
-    const visible = chart.data.labels as unknown as ILabelNodes;
-    const roots = cc.data.rootNodes ?? [];
-    const visibleNodes = new Set(visible);
-    const hor = scale.isHorizontal();
+/**
+ * finds the hierarchy of the given scale, by default the first one
+ */
+function hierarchyOf(chart: Chart, scaleId?: string) {
+  return findHierarchies(chart).find((d) => scaleId == null || d.scale.id === scaleId);
+}
 
-    const boxSize = scale.options.hierarchyBoxSize;
-    const boxSize05 = boxSize * 0.5;
-    const boxSize01 = boxSize * 0.1;
-    const boxRow = scale.options.hierarchyBoxLineHeight;
-    const boxColor = scale.options.hierarchyBoxColor;
-    const boxWidth = scale.options.hierarchyBoxWidth;
-    const boxSpanColor = scale.options.hierarchySpanColor;
-    const boxSpanWidth = scale.options.hierarchySpanWidth;
-    const renderLabel = scale.options.hierarchyLabelPosition;
-    const groupLabelPosition = scale.options.hierarchyGroupLabelPosition;
-    const isStatic = scale.options.static;
-
-    const scaleLabel = scale.options.title;
-    const scaleLabelFontColor = valueOrDefault(scaleLabel.color, defaults.color as Color);
-    const scaleLabelFont = toFont(scaleLabel.font as Partial<FontSpec>);
-
-    function renderButton(type: 'expand' | 'collapse' | 'focus', vert: boolean, x: number, y: number) {
-      if (isStatic) {
-        if (type === 'expand') {
-          return;
-        }
-        ctx.save();
-        ctx.strokeStyle = boxSpanColor;
-        ctx.lineWidth = boxSpanWidth;
-        ctx.beginPath();
-        if (vert) {
-          ctx.moveTo(x - boxSize01, y);
-          ctx.lineTo(x - boxSize05, y);
-        } else {
-          ctx.moveTo(x, y + boxSize01);
-          ctx.lineTo(x, y + boxSize05);
-          ctx.lineTo(x + (type === 'collapse' ? boxSize05 : -boxSize05), y + boxSize05);
-        }
-        ctx.stroke();
-        ctx.restore();
-        return;
-      }
-      const x0 = x - (vert ? boxSize : boxSize05);
-      const y0 = y - (vert ? boxSize05 : 0);
-
-      ctx.strokeRect(x0, y0, boxSize, boxSize);
-
-      switch (type) {
-        case 'expand':
-          // +
-          ctx.fillRect(x0 + 2, y0 + boxSize05 - 1, boxSize - 4, 2);
-          ctx.fillRect(x0 + boxSize05 - 1, y0 + 2, 2, boxSize - 4);
-          break;
-        case 'collapse':
-          // -
-          ctx.fillRect(x0 + 2, y0 + boxSize05 - 1, boxSize - 4, 2);
-          break;
-        case 'focus':
-          // .
-          ctx.fillRect(x0 + boxSize05 - 2, y0 + boxSize05 - 2, 4, 4);
-      }
-    }
+/**
+ * updates the visible labels and data after the expand state of the nodes has been changed,
+ * just the changed range is replaced to animate the change like a click
+ */
+function refresh(chart: IEnhancedChart, h: IHierarchy) {
+  const flat = refreshNodes(h.state.flatLabels ?? []);
+  setFlatLabels(chart, h, flat);
+  const labels = labelsOf(chart, h);
+  const next = determineVisible(flat);
+  let start = 0;
+  while (start < labels.length && start < next.length && labels[start] === next[start]) {
+    start += 1;
+  }
+  let end = 0;
+  while (
+    end < labels.length - start &&
+    end < next.length - start &&
+    labels[labels.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end += 1;
+  }
+  spliceLabels(chart, h, start, labels.length - start - end, next.slice(start, next.length - end));
+  postDataUpdate(chart, h);
+}
 
-    ctx.save();
-    ctx.strokeStyle = boxColor;
-    ctx.lineWidth = boxWidth;
-    ctx.fillStyle = scaleLabelFontColor!; // render in correct color
-    ctx.font = scaleLabelFont.string;
+/**
+ * resolves a node given by its path of labels
+ */
+function nodeOf(h: IHierarchy, node: readonly string[] | ILabelNode) {
+  const flat = h.state.flatLabels ?? [];
+  if (!Array.isArray(node)) {
+    return flat.includes(node as ILabelNode) ? (node as ILabelNode) : undefined;
+  }
+  return findNodeByPath(flat, node as readonly string[]);
+}
 
-    const renderHorLevel = (node: ILabelNode) => {
-      if (node.children.length === 0) {
-        return false;
+/**
+ * expands the given parents, the focus is reset if it would hide the node
+ */
+function reveal(h: IHierarchy, node: ILabelNode) {
+  const flat = h.state.flatLabels ?? [];
+  const focus = flat.find((d) => d.expand === 'focus');
+  if (focus && focus !== node && !isInSubTree(node, focus)) {
+    focus.expand = true;
+  }
+  parentsOf(node, flat)
+    .slice(0, -1)
+    .forEach((d) => {
+      if (!d.expand) {
+        d.expand = true;
       }
-      const offset = node.level * boxRow;
+    });
+}
 
-      if (!node.expand) {
-        if (visibleNodes.has(node)) {
-          renderButton('expand', false, node.center, offset);
-        }
-        return false;
-      }
-      const r = spanLogic(node, flat, visibleNodes, groupLabelPosition);
-      if (!r) {
-        return false;
-      }
-      const {
-        hasFocusBox,
-        hasCollapseBox,
-        leftVisible,
-        rightVisible,
-        leftFirstVisible,
-        rightLastVisible,
-        groupLabelCenter,
-      } = r;
-
-      // render group label
-      if (renderLabel === 'below') {
-        ctx.fillText(node.label, groupLabelCenter, offset + boxSize);
-      } else if (renderLabel === 'above') {
-        ctx.fillText(node.label, groupLabelCenter, offset - boxSize);
-      }
-      if (hasCollapseBox) {
-        renderButton('collapse', false, leftVisible.center, offset);
-      }
-      if (hasFocusBox) {
-        renderButton('focus', false, rightVisible.center, offset);
-      }
+/**
+ * expands the node given by its path of labels (or the node itself) like clicking on its expand button.
+ * Its parents are expanded, too
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function expandNode(chart: Chart, path: readonly string[] | ILabelNode, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  const node = h ? nodeOf(h, path) : undefined;
+  if (!h || !node || node.expand || (node.children.length === 0 && !node.lazy)) {
+    return;
+  }
+  const index = labelsOf(cc, h).indexOf(node);
+  if (index >= 0) {
+    expand(cc, h, index, node);
+    return;
+  }
+  if (!allowed(cc, h, 'Expand', node)) {
+    return;
+  }
+  reveal(h, node);
+  if (node.lazy) {
+    refresh(cc, h);
+    loadChildren(cc, h, node);
+    return;
+  }
+  node.expand = true;
+  refresh(cc, h);
+  notify(cc, h, 'Expand', node);
+}
 
-      if (leftVisible !== rightVisible) {
-        // helper span line
-        ctx.strokeStyle = boxSpanColor;
-        ctx.lineWidth = boxSpanWidth;
-        ctx.beginPath();
-        if (hasCollapseBox) {
-          // stitch to box
-          ctx.moveTo(leftVisible.center + boxSize05, offset + boxSize05);
-        } else if (leftFirstVisible) {
-          // add starting group hint
-          ctx.moveTo(leftVisible.center, offset + boxSize01);
-          ctx.lineTo(leftVisible.center, offset + boxSize05);
-        } else {
-          // just a line
-          ctx.moveTo(leftVisible.center, offset + boxSize05);
-        }
+/**
+ * collapses the node given by its path of labels (or the node itself) including all of its children
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function collapseNode(chart: Chart, path: readonly string[] | ILabelNode, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  const node = h ? nodeOf(h, path) : undefined;
+  if (!h || !node || !node.expand) {
+    return;
+  }
+  const labels = labelsOf(cc, h);
+  const index = labels.findIndex((d) => isInSubTree(d, node));
+  const focus = (h.state.flatLabels ?? []).find((d) => d.expand === 'focus');
+  if (index >= 0 && node.expand === true && (!focus || !isInSubTree(focus, node))) {
+    collapse(cc, h, index, node);
+    return;
+  }
+  if (!allowed(cc, h, 'Collapse', node)) {
+    return;
+  }
+  node.children.forEach((c) =>
+    preOrderTraversal(c, (d) => {
+      d.expand = false;
+    })
+  );
+  node.expand = false;
+  refresh(cc, h);
+  notify(cc, h, 'Collapse', node);
+}
 
-        if (hasFocusBox) {
-          ctx.lineTo(rightVisible.center - boxSize05, offset + boxSize05);
-        } else if (rightLastVisible) {
-          ctx.lineTo(rightVisible.center, offset + boxSize05);
-          ctx.lineTo(rightVisible.center, offset + boxSize01);
-        } else {
-          ctx.lineTo(rightVisible.center, offset + boxSize05);
-        }
-        ctx.stroke();
-        ctx.strokeStyle = boxColor;
-        ctx.lineWidth = boxWidth;
-      }
+/**
+ * focuses the node given by its path of labels (or the node itself) such that just its children are shown
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function focusNode(chart: Chart, path: readonly string[] | ILabelNode, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  const node = h ? nodeOf(h, path) : undefined;
+  if (!h || !node || node.expand === 'focus' || node.children.length === 0) {
+    return;
+  }
+  const flat = h.state.flatLabels ?? [];
+  const labels = labelsOf(cc, h);
+  const visible = labels.filter((d) => isInSubTree(d, node));
+  if (
+    node.expand === true &&
+    visible.length > 0 &&
+    !flat.some((d) => d.expand === 'focus') &&
+    visible.length === countExpanded(node)
+  ) {
+    zoomIn(cc, h, labels.indexOf(visible[visible.length - 1]), node, flat);
+    return;
+  }
+  if (!allowed(cc, h, 'Focus', node)) {
+    return;
+  }
+  flat.forEach((d) => {
+    if (d.expand === 'focus') {
+      d.expand = true;
+    }
+  });
+  reveal(h, node);
+  node.expand = 'focus';
+  refresh(cc, h);
+  notify(cc, h, 'Focus', node);
+}
 
-      return true;
-    };
+/**
+ * resets the focus such that all nodes are shown again
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function resetFocus(chart: Chart, scaleId?: string): void {
+  const h = hierarchyOf(chart, scaleId);
+  const focus = h?.state.flatLabels?.find((d) => d.expand === 'focus');
+  if (!h || !focus) {
+    return;
+  }
+  zoomOut(chart as unknown as IEnhancedChart, h, focus);
+}
 
-    const renderVertLevel = (node: ILabelNode) => {
-      if (node.children.length === 0) {
-        return false;
-      }
-      const offset = node.level * boxRow * -1;
+/**
+ * back/forward history of the focused node of a hierarchy, null for no focus
+ */
+interface IFocusHistory {
+  entries: (string[] | null)[];
+  index: number;
+  /**
+   * whether the focus is changed by moving in the history
+   */
+  moving: boolean;
+}
 
-      if (!node.expand) {
-        if (visibleNodes.has(node)) {
-          renderButton('expand', true, offset, node.center);
-        }
-        return false;
+const focusHistories = new WeakMap<Chart, Partial<Record<ILabelsKey, IFocusHistory>>>();
+
+function focusPathOf(h: IHierarchy) {
+  const focus = (h.state.flatLabels ?? []).find((d) => d.expand === 'focus');
+  return focus ? pathOf(focus) : null;
+}
+
+function historyOf(chart: Chart, h: IHierarchy) {
+  if (!focusHistories.has(chart)) {
+    focusHistories.set(chart, {});
+  }
+  const histories = focusHistories.get(chart)!;
+  if (!histories[h.key]) {
+    histories[h.key] = { entries: [focusPathOf(h)], index: 0, moving: false };
+  }
+  return histories[h.key]!;
+}
+
+/**
+ * adds the current focus to the history, dropping the entries ahead
+ */
+function recordFocus(chart: Chart, h: IHierarchy) {
+  const history = historyOf(chart, h);
+  const entry = focusPathOf(h);
+  if (history.moving || JSON.stringify(history.entries[history.index]) === JSON.stringify(entry)) {
+    return;
+  }
+  history.entries.splice(history.index + 1, history.entries.length, entry);
+  history.index = history.entries.length - 1;
+}
+
+function moveFocus(chart: Chart, h: IHierarchy, delta: number) {
+  const history = historyOf(chart, h);
+  const entry = history.entries[history.index + delta];
+  if (entry === undefined) {
+    return false;
+  }
+  history.moving = true;
+  try {
+    if (entry) {
+      focusNode(chart, entry, h.scale.id);
+    } else {
+      resetFocus(chart, h.scale.id);
+    }
+  } finally {
+    history.moving = false;
+  }
+  if (JSON.stringify(focusPathOf(h)) !== JSON.stringify(entry)) {
+    // canceled by a callback or the node doesn't exist anymore
+    return false;
+  }
+  history.index += delta;
+  return true;
+}
+
+/**
+ * focuses the previously focused node again, or resets the focus if there was none
+ * @param scaleId id of the hierarchical scale, by default the first one
+ * @returns whether the focus has been changed
+ */
+export function focusBack(chart: Chart, scaleId?: string): boolean {
+  const h = hierarchyOf(chart, scaleId);
+  return h != null && moveFocus(chart, h, -1);
+}
+
+/**
+ * redoes a focus change undone by `focusBack`
+ * @param scaleId id of the hierarchical scale, by default the first one
+ * @returns whether the focus has been changed
+ */
+export function focusForward(chart: Chart, scaleId?: string): boolean {
+  const h = hierarchyOf(chart, scaleId);
+  return h != null && moveFocus(chart, h, 1);
+}
+
+/**
+ * expands all nodes, lazy nodes are not loaded
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function expandAll(chart: Chart, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  if (!h) {
+    return;
+  }
+  const expanded = (h.state.flatLabels ?? []).filter(
+    (d) => d.children.length > 0 && !d.expand && allowed(cc, h, 'Expand', d)
+  );
+  expanded.forEach((d) => {
+    d.expand = true;
+  });
+  refresh(cc, h);
+  expanded.forEach((d) => notify(cc, h, 'Expand', d));
+}
+
+/**
+ * shows the nodes up to the given level by expanding the nodes above and collapsing the others, the focus is reset
+ * @param level level to show, 0 for just the root nodes
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function collapseToLevel(chart: Chart, level: number, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  if (!h) {
+    return;
+  }
+  const changed: [ILabelNode, IHierarchyAction][] = [];
+  (h.state.flatLabels ?? []).forEach((d) => {
+    const show = d.level < level && d.children.length > 0;
+    if (Boolean(d.expand) === show) {
+      if (d.expand === 'focus') {
+        d.expand = true;
       }
-      const r = spanLogic(node, flat, visibleNodes, groupLabelPosition);
+      return;
+    }
+    const action = show ? 'Expand' : 'Collapse';
+    if (allowed(cc, h, action, d)) {
+      d.expand = show;
+      changed.push([d, action]);
+    }
+  });
+  refresh(cc, h);
+  changed.forEach(([d, action]) => notify(cc, h, action, d));
+}
+
+/**
+ * returns the expand and focus state of the hierarchy, e.g. to store it in the URL
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function getViewState(chart: Chart, scaleId?: string): IViewState | null {
+  const h = hierarchyOf(chart, scaleId);
+  return h ? toViewState(h.state.flatLabels ?? []) : null;
+}
+
+/**
+ * restores the expand and focus state of the hierarchy, paths which don't exist anymore are ignored
+ * @param scaleId id of the hierarchical scale, by default the first one
+ */
+export function setViewState(chart: Chart, state: IViewState, scaleId?: string): void {
+  const h = hierarchyOf(chart, scaleId);
+  if (!h) {
+    return;
+  }
+  setNodes(chart as unknown as IEnhancedChart, h, applyViewState(h.state.flatLabels ?? [], state));
+  chart.update();
+}
+
+/**
+ * filters the hierarchy by a predicate or a case insensitive text query, the parents of matches are expanded.
+ * null or an empty query clears the filter and restores the previous expand state
+ * @param scaleId id of the hierarchical scale to filter, by default the first one
+ */
+export function filterNodes(chart: Chart, query: string | IFilterPredicate | null, scaleId?: string): void {
+  const cc = chart as unknown as IEnhancedChart;
+  const h = hierarchyOf(chart, scaleId);
+  if (!h) {
+    return;
+  }
+  const predicate = query == null || query === '' ? null : toFilterPredicate(query);
+  const chartFilters = filtersOf(chart);
+  const filter = chartFilters[h.key];
+  if (!h.state.flatLabels) {
+    // not initialized yet, applied during the next update
+    chartFilters[h.key] = predicate ? { predicate } : undefined;
+    return;
+  }
+  let flat = filter?.state ? revertFilter(filter.state) : h.state.flatLabels;
+  if (predicate) {
+    const r = applyFilter(flat, predicate);
+    chartFilters[h.key] = { predicate, state: r.state };
+    flat = r.flat;
+  } else {
+    chartFilters[h.key] = undefined;
+  }
+  setNodes(cc, h, flat);
+  chart.update();
+}
+
+/**
+ * a rendered button along with its bounds in canvas coordinates
+ */
+interface IButton {
+  type: IIndicatorType;
+  node: ILabelNode;
+  /**
+   * visible label at which the button is rendered
+   */
+  label: ILabelNode;
+  bounds: IIndicatorBounds;
+}
+
+/**
+ * results of the last rendering of a hierarchy
+ */
+interface IRendered {
+  buttons: IButton[];
+  /**
+   * groups whose label has been shortened or hidden
+   */
+  truncated: Set<ILabelNode>;
+}
+
+/**
+ * rendered buttons by scale id
+ */
+const rendered = new WeakMap<Chart, Record<string, IRendered>>();
+
+function renderedOf(chart: Chart) {
+  if (!rendered.has(chart)) {
+    rendered.set(chart, {});
+  }
+  return rendered.get(chart)!;
+}
+
+/**
+ * shades the chart area behind the expanded groups
+ */
+function drawBands(chart: Chart, h: IHierarchy) {
+  const { scale } = h;
+  const { ctx, chartArea } = chart;
+  if (!ctx || !chartArea) {
+    return;
+  }
+  const flat = h.state.flatLabels ?? [];
+  const visibleNodes = new Set(labelsOf(chart as unknown as IEnhancedChart, h));
+  const hor = scale.isHorizontal();
+  const alternate = scale.options.hierarchyBandAlternate;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(chartArea.left, chartArea.top, chartArea.right - chartArea.left, chartArea.bottom - chartArea.top);
+  ctx.clip();
+  (h.state.rootNodes ?? []).forEach((root) =>
+    preOrderTraversal(root, (node) => {
+      const r = spanLogic(node, flat, visibleNodes);
       if (!r) {
         return false;
       }
-      const {
-        hasFocusBox,
-        hasCollapseBox,
-        leftVisible,
-        rightVisible,
-        leftFirstVisible,
-        rightLastVisible,
-        groupLabelCenter,
-      } = r;
-
-      // render group label
-      ctx.fillText(node.label, offset - boxSize, groupLabelCenter);
-
-      if (hasCollapseBox) {
-        renderButton('collapse', true, offset, leftVisible.center);
+      const color = scale._styleOf(node, 'hierarchyBandColor');
+      if (!color || (alternate && node.relIndex % 2 === 1)) {
+        return true;
       }
-      if (hasFocusBox) {
-        renderButton('focus', true, offset, rightVisible.center);
+      // from the start of the first visible child to the end of the last one
+      const start = r.leftVisible.center - r.leftVisible.width;
+      const end = r.rightVisible.center + r.rightVisible.width;
+      ctx.fillStyle = color;
+      if (hor) {
+        ctx.fillRect(scale.left + start, chartArea.top, end - start, chartArea.bottom - chartArea.top);
+      } else {
+        ctx.fillRect(chartArea.left, scale.top + start, chartArea.right - chartArea.left, end - start);
       }
+      return true;
+    })
+  );
+  ctx.restore();
+}
 
-      if (leftVisible !== rightVisible) {
-        // helper span line
-        ctx.strokeStyle = boxSpanColor;
-        ctx.lineWidth = boxSpanWidth;
-        ctx.beginPath();
-        if (hasCollapseBox) {
-          // stitch to box
-          ctx.moveTo(offset - boxSize05, leftVisible.center + boxSize05);
-        } else if (leftFirstVisible) {
-          // add starting group hint
-          ctx.moveTo(offset - boxSize01, leftVisible.center);
-          ctx.lineTo(offset - boxSize05, leftVisible.center);
-        } else {
-          // just a line
-          ctx.lineTo(offset - boxSize05, leftVisible.center);
-        }
+/**
+ * draws the hierarchy indicators of a single scale
+ */
+function drawHierarchy(chart: Chart, h: IHierarchy) {
+  const { scale } = h;
+  const { ctx } = chart;
+  if (!ctx) {
+    return;
+  }
+  const flat = h.state.flatLabels ?? [];
+  const visible = labelsOf(chart as unknown as IEnhancedChart, h);
+  const roots = h.state.rootNodes ?? [];
+  const visibleNodes = new Set(visible);
+  const hor = scale.isHorizontal();
+
+  const boxRow = scale.options.hierarchyBoxLineHeight;
+  const boxWidth = scale.options.hierarchyBoxWidth;
+  const renderLabel = scale.options.hierarchyLabelPosition;
+  const groupLabelPosition = scale.options.hierarchyGroupLabelPosition;
+  const isStatic = scale.options.static;
+
+  /**
+   * resolves the styles of the given node, the hovered group is rendered in the hover colors
+   */
+  function stylesOf(node: ILabelNode, hover = false) {
+    const boxSize = scale._styleOf(node, 'hierarchyBoxSize');
+    const hoverColor = scale.options.hierarchyBoxHoverColor;
+    return {
+      boxSize,
+      boxSize05: boxSize * 0.5,
+      boxSize01: boxSize * 0.1,
+      boxColor: hover ? hoverColor : scale._styleOf(node, 'hierarchyBoxColor'),
+      spanColor: hover ? scale.options.hierarchySpanHoverColor : scale._styleOf(node, 'hierarchySpanColor'),
+      spanWidth: scale._styleOf(node, 'hierarchySpanWidth'),
+      labelColor: hover ? hoverColor : scale._styleOf(node, 'hierarchyLabelColor'),
+      font: toFont(scale._styleOf(node, 'hierarchyLabelFont')),
+      hover,
+    };
+  }
+  type IStyles = ReturnType<typeof stylesOf>;
+
+  const indicator = scale.options.hierarchyIndicator;
+  const renderer =
+    typeof indicator === 'function' ? indicator : indicatorRenderers[indicator] ?? indicatorRenderers.box;
+  const origin = scale._hierarchyOrigin();
+  const buttons: IButton[] = [];
 
-        if (hasFocusBox) {
-          ctx.lineTo(offset - boxSize05, rightVisible.center - boxSize05);
-        } else if (rightLastVisible) {
-          ctx.lineTo(offset - boxSize05, rightVisible.center - boxSize05);
-          ctx.lineTo(offset - boxSize01, rightVisible.center - boxSize05);
+  /**
+   * renders a button of the given node at the position of the given label
+   * @returns the bounds of the button, null if there is none
+   */
+  function renderButton(
+    type: IIndicatorType,
+    vert: boolean,
+    x: number,
+    y: number,
+    node: ILabelNode,
+    label: ILabelNode,
+    styles: IStyles
+  ): IIndicatorBounds | null {
+    if (isStatic && (type === 'expand' || type === 'loading')) {
+      return null;
+    }
+    const context = { chart, ctx, type, node, vertical: vert, static: isStatic, x, y, size: styles.boxSize };
+    if (!isStatic) {
+      const bounds = renderer(context);
+      if (!styles.hover && type !== 'loading') {
+        buttons.push({
+          type,
+          node,
+          label,
+          bounds: { ...bounds, left: bounds.left + origin.x, top: bounds.top + origin.y },
+        });
+      }
+      return bounds;
+    }
+    ctx.save();
+    ctx.strokeStyle = styles.spanColor;
+    ctx.lineWidth = styles.spanWidth;
+    const bounds = renderer(context);
+    ctx.restore();
+    return bounds;
+  }
+
+  const overflow = scale.options.hierarchyLabelOverflow;
+  const truncated = new Set<ILabelNode>();
+
+  /**
+   * renders the label of a group such that it stays within the extent of the group according to the overflow option
+   * @param x the center for horizontal scales, the right end for vertical ones
+   * @param y the top (bottom if above) for horizontal scales, the center for vertical ones
+   * @param start start of the extent of the group along the axis
+   * @param end end of the extent of the group along the axis
+   */
+  function renderGroupLabel(node: ILabelNode, x: number, y: number, start: number, end: number, styles: IStyles) {
+    const { label } = node;
+    if (overflow === 'visible') {
+      ctx.fillText(label, x, y);
+      return;
+    }
+    const measure = (text: string) => ctx.measureText(text).width;
+    // shift horizontal labels such that they don't exceed the extent
+    const shift = (width: number) => (hor ? Math.min(Math.max(x, start + width / 2), end - width / 2) : x);
+    const { lineHeight } = styles.font;
+    // the space across the axis within the row of the level
+    const room = boxRow - styles.boxSize;
+    const length = end - start;
+    const maxWidth = hor ? length : room;
+    const width = measure(label);
+    if (width <= maxWidth) {
+      ctx.fillText(label, shift(width), y);
+      return;
+    }
+    switch (overflow) {
+      case 'wrap': {
+        const lines = wrapText(label, maxWidth, measure, Math.max(1, Math.floor((hor ? room : length) / lineHeight)));
+        const lx = shift(Math.max(0, ...lines.map(measure)));
+        let ly = y - ((lines.length - 1) * lineHeight) / 2;
+        if (hor) {
+          ly = renderLabel === 'above' ? y - (lines.length - 1) * lineHeight : y;
+        }
+        lines.forEach((line, i) => ctx.fillText(line, lx, ly + i * lineHeight));
+        if (lines.join(' ') !== label) {
+          truncated.add(node);
+        }
+        break;
+      }
+      case 'ellipsis': {
+        const text = ellipsize(label, maxWidth, measure);
+        ctx.fillText(text, shift(measure(text)), y);
+        truncated.add(node);
+        break;
+      }
+      case 'rotate': {
+        // across the axis for horizontal scales, along the axis for vertical ones
+        const text = ellipsize(label, hor ? room : length, measure);
+        ctx.save();
+        if (hor) {
+          ctx.translate(Math.min(Math.max(x, start + lineHeight / 2), end - lineHeight / 2), y);
+          ctx.textAlign = renderLabel === 'above' ? 'left' : 'right';
         } else {
-          ctx.lineTo(offset - boxSize05, rightVisible.center);
+          ctx.translate(x - lineHeight / 2, y);
+          ctx.textAlign = 'center';
+        }
+        ctx.rotate(-Math.PI / 2);
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, 0, 0);
+        ctx.restore();
+        if (text !== label) {
+          truncated.add(node);
         }
-        ctx.stroke();
-        ctx.strokeStyle = boxColor;
-        ctx.lineWidth = boxWidth;
+        break;
       }
+      default:
+        // hide
+        truncated.add(node);
+    }
+  }
 
-      return true;
-    };
+  /**
+   * applies the box and label styles of the given node to the context
+   */
+  function applyStyles(styles: IStyles) {
+    ctx.strokeStyle = styles.boxColor;
+    ctx.lineWidth = boxWidth;
+    ctx.fillStyle = styles.labelColor; // render in correct color
+    ctx.font = styles.font.string;
+  }
+
+  ctx.save();
+
+  const renderHorLevel = (node: ILabelNode, hover = false) => {
+    if (node.children.length === 0 && !node.lazy) {
+      return false;
+    }
+    const offset = node.level * boxRow;
+    const styles = stylesOf(node, hover);
+    const { boxSize, boxSize05, boxSize01 } = styles;
+    applyStyles(styles);
+
+    if (!node.expand) {
+      if (visibleNodes.has(node)) {
+        renderButton(node.loading ? 'loading' : 'expand', false, node.center, offset, node, node, styles);
+      }
+      return false;
+    }
+    const r = spanLogic(node, flat, visibleNodes, groupLabelPosition);
+    if (!r) {
+      return false;
+    }
+    const {
+      hasFocusBox,
+      hasCollapseBox,
+      leftVisible,
+      rightVisible,
+      leftFirstVisible,
+      rightLastVisible,
+      groupLabelCenter,
+    } = r;
+
+    // render group label
+    const start = Math.max(0, leftVisible.center - leftVisible.width);
+    const end = Math.min(scale.width, rightVisible.center + rightVisible.width);
+    if (renderLabel === 'below') {
+      renderGroupLabel(node, groupLabelCenter, offset + boxSize, start, end, styles);
+    } else if (renderLabel === 'above') {
+      renderGroupLabel(node, groupLabelCenter, offset - boxSize, start, end, styles);
+    }
+    const collapseBounds = hasCollapseBox
+      ? renderButton('collapse', false, leftVisible.center, offset, node, leftVisible, styles)
+      : null;
+    const focusBounds = hasFocusBox
+      ? renderButton('focus', false, rightVisible.center, offset, node, rightVisible, styles)
+      : null;
+
+    if (leftVisible !== rightVisible) {
+      // helper span line
+      ctx.strokeStyle = styles.spanColor;
+      ctx.lineWidth = styles.spanWidth;
+      ctx.beginPath();
+      if (collapseBounds) {
+        // stitch to box
+        ctx.moveTo(collapseBounds.left + collapseBounds.width, offset + boxSize05);
+      } else if (leftFirstVisible) {
+        // add starting group hint
+        ctx.moveTo(leftVisible.center, offset + boxSize01);
+        ctx.lineTo(leftVisible.center, offset + boxSize05);
+      } else {
+        // just a line
+        ctx.moveTo(leftVisible.center, offset + boxSize05);
+      }
+
+      if (focusBounds) {
+        ctx.lineTo(focusBounds.left, offset + boxSize05);
+      } else if (rightLastVisible) {
+        ctx.lineTo(rightVisible.center, offset + boxSize05);
+        ctx.lineTo(rightVisible.center, offset + boxSize01);
+      } else {
+        ctx.lineTo(rightVisible.center, offset + boxSize05);
+      }
+      ctx.stroke();
+    }
+
+    return true;
+  };
+
+  const renderVertLevel = (node: ILabelNode, hover = false) => {
+    if (node.children.length === 0 && !node.lazy) {
+      return false;
+    }
+    const offset = node.level * boxRow * -1;
+    const styles = stylesOf(node, hover);
+    const { boxSize, boxSize05, boxSize01 } = styles;
+    applyStyles(styles);
+
+    if (!node.expand) {
+      if (visibleNodes.has(node)) {
+        renderButton(node.loading ? 'loading' : 'expand', true, offset, node.center, node, node, styles);
+      }
+      return false;
+    }
+    const r = spanLogic(node, flat, visibleNodes, groupLabelPosition);
+    if (!r) {
+      return false;
+    }
+    const {
+      hasFocusBox,
+      hasCollapseBox,
+      leftVisible,
+      rightVisible,
+      leftFirstVisible,
+      rightLastVisible,
+      groupLabelCenter,
+    } = r;
+
+    // render group label
+    const start = Math.max(0, leftVisible.center - leftVisible.width);
+    const end = Math.min(scale.height, rightVisible.center + rightVisible.width);
+    renderGroupLabel(node, offset - boxSize, groupLabelCenter, start, end, styles);
+
+    const collapseBounds = hasCollapseBox
+      ? renderButton('collapse', true, offset, leftVisible.center, node, leftVisible, styles)
+      : null;
+    const focusBounds = hasFocusBox
+      ? renderButton('focus', true, offset, rightVisible.center, node, rightVisible, styles)
+      : null;
+
+    if (leftVisible !== rightVisible) {
+      // helper span line
+      ctx.strokeStyle = styles.spanColor;
+      ctx.lineWidth = styles.spanWidth;
+      ctx.beginPath();
+      if (collapseBounds) {
+        // stitch to box
+        ctx.moveTo(offset - boxSize05, collapseBounds.top + collapseBounds.height);
+      } else if (leftFirstVisible) {
+        // add starting group hint
+        ctx.moveTo(offset - boxSize01, leftVisible.center);
+        ctx.lineTo(offset - boxSize05, leftVisible.center);
+      } else {
+        // just a line
+        ctx.lineTo(offset - boxSize05, leftVisible.center);
+      }
+
+      if (focusBounds) {
+        ctx.lineTo(offset - boxSize05, focusBounds.top);
+      } else if (rightLastVisible) {
+        ctx.lineTo(offset - boxSize05, rightVisible.center - boxSize05);
+        ctx.lineTo(offset - boxSize01, rightVisible.center - boxSize05);
+      } else {
+        ctx.lineTo(offset - boxSize05, rightVisible.center);
+      }
+      ctx.stroke();
+    }
+
+    return true;
+  };
+
+  if (hor) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = renderLabel === 'above' ? 'bottom' : 'top';
+    ctx.translate(origin.x, origin.y);
+    roots.forEach((n) => preOrderTraversal(n, (d) => renderHorLevel(d)));
+  } else {
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.translate(origin.x, origin.y);
+
+    roots.forEach((n) => preOrderTraversal(n, (d) => renderVertLevel(d)));
+  }
+
+  renderedOf(chart)[scale.id] = { buttons, truncated };
+
+  const hover = hovers.get(chart);
+  if (hover && hover.scaleId === scale.id && flat.includes(hover.node)) {
+    // render the hovered group again in the highlight colors
+    (hor ? renderHorLevel : renderVertLevel)(hover.node, true);
+  }
+
+  const keyboard = keyboards.get(chart);
+  if (keyboard?.node && keyboard.scaleId === scale.id && document.activeElement === chart.canvas) {
+    drawFocusRing(ctx, h, keyboard.node, visible);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * keyboard navigation state of a chart
+ */
+interface IKeyboardState {
+  /**
+   * scale and node having the keyboard focus
+   */
+  scaleId?: string;
+  node?: ILabelNode;
+  listeners: Record<'keydown' | 'focus' | 'blur', (e: Event) => void>;
+  /**
+   * offscreen element announcing the current node to screen readers
+   */
+  liveRegion: HTMLElement;
+}
 
+const keyboards = new WeakMap<Chart, IKeyboardState>();
+
+/**
+ * draws a ring around the tick or the group row of the node with the keyboard focus
+ */
+function drawFocusRing(ctx: CanvasRenderingContext2D, h: IHierarchy, node: ILabelNode, visible: ILabelNodes) {
+  const { scale } = h;
+  const hor = scale.isHorizontal();
+  const boxRow = scale.options.hierarchyBoxLineHeight;
+  const descendants = visible.filter((d) => isInSubTree(d, node));
+  if (descendants.length === 0) {
+    return;
+  }
+  const first = descendants[0];
+  const last = descendants[descendants.length - 1];
+  const start = first.center - first.width;
+  const length = last.center + last.width - start;
+
+  ctx.save();
+  ctx.strokeStyle = scale._styleOf(node, 'hierarchyBoxColor');
+  ctx.lineWidth = 2;
+  ctx.setLineDash([3, 2]);
+  if (visible.includes(node)) {
+    // the tick itself
+    const origin = scale._hierarchyOrigin();
+    const ticks = scale._tickRange();
     if (hor) {
-      ctx.textAlign = 'center';
-      ctx.textBaseline = renderLabel === 'above' ? 'bottom' : 'top';
-      ctx.translate(scale.left, scale.bottom + scale.options.padding);
-      roots.forEach((n) => preOrderTraversal(n, renderHorLevel));
+      ctx.strokeRect(start, ticks.start - origin.y, length, ticks.end - ticks.start);
     } else {
-      ctx.textAlign = 'right';
-      ctx.textBaseline = 'middle';
-      ctx.translate(scale.left - scale.options.padding, scale.top);
+      ctx.strokeRect(ticks.start - origin.x, start, ticks.end - ticks.start, length);
+    }
+  } else if (hor) {
+    ctx.strokeRect(start, node.level * boxRow - 2, length, boxRow);
+  } else {
+    ctx.strokeRect(-(node.level + 1) * boxRow + 2, start, boxRow, length);
+  }
+  ctx.restore();
+}
 
-      roots.forEach((n) => preOrderTraversal(n, renderVertLevel));
+/**
+ * announces the node with its level and values to screen readers
+ */
+function announce(chart: IEnhancedChart, h: IHierarchy, node: ILabelNode, liveRegion: HTMLElement) {
+  const parts = [node.label, `level ${node.level + 1}`];
+  if (node.expand === 'focus') {
+    parts.push('focused');
+  } else if (node.children.length > 0 || node.lazy) {
+    parts.push(node.expand ? 'expanded' : 'collapsed');
+  }
+  if (h.values) {
+    const flat = h.state.flatLabels ?? [];
+    chart.data.datasets.forEach((dataset: IEnhancedChartDataSet) => {
+      const value = resolve(node, flat, dataset.tree, resolveOptionsOf(h.scale, dataset));
+      parts.push(dataset.label ? `${dataset.label} ${value}` : String(value));
+    });
+  }
+  liveRegion.textContent = parts.join(', ');
+}
+
+function handleKeyDown(chart: Chart, event: KeyboardEvent) {
+  const keyboard = keyboards.get(chart);
+  const hierarchies = findHierarchies(chart).filter((d) => d.scale.options.keyboard);
+  if (!keyboard || hierarchies.length === 0 || event.altKey || event.ctrlKey || event.metaKey) {
+    return;
+  }
+  const cc = chart as unknown as IEnhancedChart;
+  let h = hierarchies.find((d) => d.scale.id === keyboard.scaleId) ?? hierarchies[0];
+  if (event.key === 'a' && hierarchies.length > 1) {
+    // switch to the next axis
+    h = hierarchies[(hierarchies.indexOf(h) + 1) % hierarchies.length];
+    keyboard.node = undefined;
+  }
+  const flat = h.state.flatLabels ?? [];
+  const labels = labelsOf(cc, h);
+  let node = keyboard.node && flat.includes(keyboard.node) ? keyboard.node : labels[0];
+  if (!node) {
+    return;
+  }
+  const scaleId = h.scale.id;
+  const moves: Record<string, INavigation> = h.scale.isHorizontal()
+    ? { ArrowLeft: 'previous', ArrowRight: 'next', ArrowUp: 'parent', ArrowDown: 'child', Home: 'first', End: 'last' }
+    : { ArrowUp: 'previous', ArrowDown: 'next', ArrowRight: 'parent', ArrowLeft: 'child', Home: 'first', End: 'last' };
+
+  if (moves[event.key]) {
+    node = navigate(node, flat, labels, moves[event.key]);
+  } else if (event.key === 'Enter' || event.key === ' ') {
+    if (node.expand) {
+      collapseNode(chart, node, scaleId);
+    } else {
+      expandNode(chart, node, scaleId);
+    }
+  } else if (event.key === 'f') {
+    if (node.expand === 'focus') {
+      resetFocus(chart, scaleId);
+    } else {
+      focusNode(chart, node, scaleId);
     }
+  } else if (event.key === 'Escape') {
+    resetFocus(chart, scaleId);
+  } else if (event.key !== 'a' || hierarchies.length === 1) {
+    return;
+  }
+  event.preventDefault();
+  keyboard.scaleId = scaleId;
+  keyboard.node = node;
+  chart.draw();
+  announce(cc, h, node, keyboard.liveRegion);
+}
 
-    ctx.restore();
-  },
+/**
+ * adds or removes the keyboard support of the chart depending on the keyboard option of its hierarchical scales
+ */
+function updateKeyboard(chart: Chart) {
+  const keyboard = keyboards.get(chart);
+  const wanted =
+    typeof document !== 'undefined' &&
+    chart.canvas instanceof HTMLCanvasElement &&
+    findHierarchies(chart).some((d) => d.scale.options.keyboard);
+  if (keyboard && !wanted) {
+    removeKeyboard(chart);
+  }
+  if (!wanted || keyboard) {
+    return;
+  }
+  const { canvas } = chart;
+  const liveRegion = document.createElement('div');
+  liveRegion.setAttribute('role', 'status');
+  liveRegion.setAttribute('aria-live', 'polite');
+  // visually hidden but accessible
+  Object.assign(liveRegion.style, {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    overflow: 'hidden',
+    clip: 'rect(0 0 0 0)',
+    whiteSpace: 'nowrap',
+  });
+  canvas.parentNode?.insertBefore(liveRegion, canvas.nextSibling);
+  if (!canvas.hasAttribute('tabindex')) {
+    canvas.tabIndex = 0;
+  }
+  const state: IKeyboardState = {
+    liveRegion,
+    listeners: {
+      keydown: (e) => handleKeyDown(chart, e as KeyboardEvent),
+      focus: () => chart.draw(),
+      blur: () => chart.draw(),
+    },
+  };
+  Object.entries(state.listeners).forEach(([type, listener]) => canvas.addEventListener(type, listener));
+  keyboards.set(chart, state);
+}
 
-  beforeEvent(chart: Chart, { event }) {
-    if (event.type !== 'click' || !enabled(chart)) {
-      return;
+function removeKeyboard(chart: Chart) {
+  const keyboard = keyboards.get(chart);
+  if (!keyboard) {
+    return;
+  }
+  Object.entries(keyboard.listeners).forEach(([type, listener]) => chart.canvas?.removeEventListener(type, listener));
+  keyboard.liveRegion.remove();
+  keyboards.delete(chart);
+}
+
+/**
+ * clickable path from the root to the focused node, rendered as a layout box above the chart area
+ */
+interface IBreadcrumb extends LayoutItem {
+  /**
+   * layout options, the breadcrumb isn't stacked
+   */
+  options: Record<string, never>;
+  scaleId: string;
+  /**
+   * rendered crumbs along with their horizontal extent, the root crumb has no node
+   */
+  crumbs: { node: ILabelNode | null; left: number; right: number }[];
+}
+
+const breadcrumbs = new WeakMap<Chart, Partial<Record<ILabelsKey, IBreadcrumb>>>();
+
+function drawBreadcrumb(chart: Chart, box: IBreadcrumb) {
+  const h = hierarchyOf(chart, box.scaleId);
+  const { ctx } = chart;
+  box.crumbs = [];
+  if (!h || !ctx) {
+    return;
+  }
+  const { options } = h.scale;
+  const flat = h.state.flatLabels ?? [];
+  const focus = flat.find((d) => d.expand === 'focus');
+  const nodes = [null, ...(focus ? parentsOf(focus, flat) : [])];
+  const font = toFont(options.title.font as Partial<FontSpec>);
+  const separator = options.breadcrumbSeparator;
+
+  ctx.save();
+  ctx.font = font.string;
+  ctx.fillStyle = valueOrDefault(options.title.color, defaults.color as Color);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const y = box.top + box.height / 2;
+  let x = box.left;
+  nodes.forEach((node, i) => {
+    if (i > 0) {
+      ctx.fillText(separator, x, y);
+      x += ctx.measureText(separator).width;
     }
-    const clickEvent = event as { x: number; y: number };
+    const label = node ? node.label : options.breadcrumbRootLabel;
+    const width = ctx.measureText(label).width;
+    ctx.fillText(label, x, y);
+    if (i < nodes.length - 1) {
+      // underline the crumbs which can be clicked
+      ctx.fillRect(x, y + font.size / 2, width, 1);
+    }
+    box.crumbs.push({ node, left: x, right: x + width });
+    x += width;
+  });
+  ctx.restore();
+}
+
+function createBreadcrumb(chart: Chart, h: IHierarchy): IBreadcrumb {
+  const box: IBreadcrumb = {
+    options: {},
+    scaleId: h.scale.id,
+    crumbs: [],
+    position: 'top',
+    weight: 0,
+    fullSize: false,
+    width: 0,
+    height: 0,
+    left: 0,
+    top: 0,
+    right: 0,
+    bottom: 0,
+    isHorizontal: () => true,
+    update(width: number) {
+      const scale = hierarchyOf(chart, box.scaleId)?.scale;
+      box.width = width;
+      box.height = scale
+        ? toFont(scale.options.title.font as Partial<FontSpec>).lineHeight + 2 * scale.options.padding
+        : 0;
+    },
+    draw() {
+      drawBreadcrumb(chart, box);
+    },
+  };
+  return box;
+}
 
-    const scale = findScale(chart);
-    if (!scale || scale.options.static) {
+/**
+ * adds and removes the breadcrumb boxes according to the scale options
+ */
+function updateBreadcrumbs(chart: Chart) {
+  if (!breadcrumbs.has(chart)) {
+    breadcrumbs.set(chart, {});
+  }
+  const boxes = breadcrumbs.get(chart)!;
+  const keys = new Set<ILabelsKey>();
+  findHierarchies(chart).forEach((h) => {
+    if (!h.scale.options.breadcrumb || keys.has(h.key)) {
       return;
     }
-    const hor = scale.isHorizontal();
-
-    const elem = resolveElement(clickEvent, scale);
-    if (!elem) {
+    keys.add(h.key);
+    const box = boxes[h.key];
+    if (box) {
+      box.scaleId = h.scale.id;
       return;
     }
+    boxes[h.key] = createBreadcrumb(chart, h);
+    layouts.addBox(chart, boxes[h.key]!);
+  });
+  (Object.keys(boxes) as ILabelsKey[]).forEach((key) => {
+    if (!keys.has(key)) {
+      layouts.removeBox(chart, boxes[key]!);
+      delete boxes[key];
+    }
+  });
+}
+
+/**
+ * finds the clickable crumb at the given position
+ */
+function findCrumb(chart: Chart, event: { x: number; y: number }) {
+  const boxes = Object.values(breadcrumbs.get(chart) ?? {});
+  for (const box of boxes) {
+    if (event.y >= box.top && event.y <= box.bottom) {
+      const crumb = box.crumbs.find((d) => event.x >= d.left && event.x <= d.right);
+      if (crumb && crumb !== box.crumbs[box.crumbs.length - 1]) {
+        return { scaleId: box.scaleId, node: crumb.node };
+      }
+    }
+  }
+  return null;
+}
 
+/**
+ * finds the rendered button at the given position
+ */
+function buttonAt(chart: Chart, h: IHierarchy, event: { x: number; y: number }): IHit | null {
+  const button = (renderedOf(chart)[h.scale.id]?.buttons ?? []).find(
+    ({ bounds }) =>
+      event.x >= bounds.left &&
+      event.x <= bounds.left + bounds.width &&
+      event.y >= bounds.top &&
+      event.y <= bounds.top + bounds.height
+  );
+  if (!button) {
+    return null;
+  }
+  const { node, label } = button;
+  const index = labelsOf(chart as unknown as IEnhancedChart, h).indexOf(label);
+  if (index < 0) {
+    return null;
+  }
+  switch (button.type) {
+    case 'collapse':
+      return { label, index, node, action: 'collapse' };
+    case 'focus':
+      return { label, index, node, action: node.expand === 'focus' ? 'zoomOut' : 'zoomIn' };
+    default:
+      return { label, index, node, action: 'expand' };
+  }
+}
+
+/**
+ * hit tests the hierarchy indicators of all interactive hierarchical scales
+ */
+function findHit(chart: Chart, event: { x: number; y: number }) {
+  let r: { h: IHierarchy; hit: IHit } | null = null;
+  findHierarchies(chart).some((h) => {
+    const { scale } = h;
+    if (scale.options.static) {
+      return false;
+    }
+    // custom indicators are hit tested using their bounds, the rows just for the spans
+    const byBounds = scale.options.hierarchyIndicator !== 'box';
+    const button = byBounds ? buttonAt(chart, h, event) : null;
+    if (button) {
+      r = { h, hit: button };
+      return true;
+    }
+    const elem = resolveElement(event, scale);
+    if (!elem) {
+      return false;
+    }
+    const hor = scale.isHorizontal();
     const boxRow = scale.options.hierarchyBoxLineHeight;
 
     const inRange = hor
-      ? (o: number) => clickEvent.y >= o && clickEvent.y <= o + boxRow
-      : (o: number) => clickEvent.x <= o && clickEvent.x >= o - boxRow;
+      ? (o: number) => event.y >= o && event.y <= o + boxRow
+      : (o: number) => event.x <= o && event.x >= o - boxRow;
     const offsetDelta = hor ? boxRow : -boxRow;
-    handleClickEvents(chart, event, elem, offsetDelta, inRange);
+    const hit = hitTest(chart, h, elem, offsetDelta, inRange);
+    r = hit ? { h, hit: byBounds ? { ...hit, action: null } : hit } : null;
+    // another scale, e.g. a secondary axis, might be hit
+    return r != null;
+  });
+  return r as { h: IHierarchy; hit: IHit } | null;
+}
+
+/**
+ * hovered hierarchy indicator of a chart
+ */
+interface IHoverState {
+  scaleId: string;
+  node: ILabelNode;
+  /**
+   * cursor of the canvas before hovering a button
+   */
+  cursor: string;
+  /**
+   * whether the bars of the group have been highlighted
+   */
+  highlighted: boolean;
+  /**
+   * whether the tooltip shows the group
+   */
+  tooltip: boolean;
+  /**
+   * title of the canvas before showing the full label of a shortened group label, null if not changed
+   */
+  title: string | null;
+}
+
+const hovers = new WeakMap<Chart, IHoverState>();
+
+/**
+ * updates the hovered node, the cursor, the highlighted bars, and the group tooltip
+ * @returns whether the chart needs to be rendered again
+ */
+function updateHover(chart: Chart, r: { h: IHierarchy; hit: IHit } | null, event: { x: number; y: number }) {
+  const previous = hovers.get(chart);
+  if (previous?.node === r?.hit.node && previous?.scaleId === r?.h.scale.id) {
+    return false;
+  }
+  const { canvas } = chart;
+  if (previous) {
+    hovers.delete(chart);
+    if (canvas?.style) {
+      canvas.style.cursor = previous.cursor;
+    }
+    if (previous.highlighted) {
+      chart.setActiveElements([]);
+    }
+    if (previous.tooltip) {
+      chart.tooltip?.setActiveElements([], { x: 0, y: 0 });
+    }
+    if (previous.title != null && canvas) {
+      canvas.title = previous.title;
+    }
+  }
+  if (r) {
+    const { h, hit } = r;
+    const state: IHoverState = {
+      scaleId: h.scale.id,
+      node: hit.node,
+      cursor: canvas?.style?.cursor ?? '',
+      highlighted: false,
+      tooltip: false,
+      title: null,
+    };
+    if (hit.action && canvas?.style) {
+      canvas.style.cursor = 'pointer';
+    }
+    if (canvas && renderedOf(chart)[h.scale.id]?.truncated.has(hit.node)) {
+      // show the full label of a shortened group label
+      state.title = canvas.title ?? '';
+      canvas.title = hit.node.label;
+    }
+    const indices: number[] = [];
+    labelsOf(chart as unknown as IEnhancedChart, h).forEach((d, i) => {
+      if (isInSubTree(d, hit.node)) {
+        indices.push(i);
+      }
+    });
+    const visible = chart.data.datasets.map((_, datasetIndex) => datasetIndex).filter((d) => chart.isDatasetVisible(d));
+    if (h.values && h.scale.options.hoverHighlightGroup) {
+      chart.setActiveElements(visible.flatMap((datasetIndex) => indices.map((index) => ({ datasetIndex, index }))));
+      state.highlighted = true;
+    }
+    if (
+      h.values &&
+      h.scale.options.groupTooltip &&
+      hit.node.children.length > 0 &&
+      chart.tooltip &&
+      indices.length > 0
+    ) {
+      // anchor the tooltip at the first bar of the group, the callbacks replace its content by the group
+      // thus the state has to be known before the tooltip is updated
+      state.tooltip = true;
+      hovers.set(chart, state);
+      chart.tooltip.setActiveElements(
+        visible.map((datasetIndex) => ({ datasetIndex, index: indices[0] })),
+        { x: event.x, y: event.y }
+      );
+    }
+    hovers.set(chart, state);
+  }
+  return true;
+}
+
+/**
+ * finds the label node of a tooltip item, the hovered group in case of a group tooltip
+ */
+function tooltipNodeOf(item: TooltipItem<keyof ChartTypeRegistry>) {
+  const { chart } = item;
+  const h = findHierarchies(chart).find((d) => d.values);
+  if (!h) {
+    return null;
+  }
+  const hover = hovers.get(chart);
+  if (hover?.tooltip && hover.scaleId === h.scale.id) {
+    return { h, node: hover.node, group: true };
+  }
+  const node = labelsOf(chart as unknown as IEnhancedChart, h)[item.dataIndex];
+  return node ? { h, node, group: false } : null;
+}
+
+function tooltipValueOf(item: TooltipItem<keyof ChartTypeRegistry>, h: IHierarchy, node: ILabelNode) {
+  const dataset = item.dataset as IEnhancedChartDataSet;
+  return resolve(node, h.state.flatLabels ?? [], dataset.tree, resolveOptionsOf(h.scale, dataset));
+}
+
+/**
+ * tooltip callbacks showing the full path of the label and the value of its parent group along with its share,
+ * as well as the aggregated values of a hovered group on the axis
+ */
+export const hierarchicalTooltipCallbacks = {
+  title(items: TooltipItem<keyof ChartTypeRegistry>[]): string {
+    if (items.length === 0) {
+      return '';
+    }
+    const r = tooltipNodeOf(items[0]);
+    return r ? r.h.scale._pathLabel(r.node) : items[0].label;
+  },
+  label(item: TooltipItem<keyof ChartTypeRegistry>): string {
+    const r = tooltipNodeOf(item);
+    const value = r?.group
+      ? formatNumber(tooltipValueOf(item, r.h, r.node) ?? Number.NaN, item.chart.options.locale!)
+      : item.formattedValue;
+    const label = item.dataset.label;
+    return label ? `${label}: ${value}` : value;
+  },
+  afterLabel(item: TooltipItem<keyof ChartTypeRegistry>): string {
+    const r = tooltipNodeOf(item);
+    if (!r || r.group || r.node.parent < 0) {
+      return '';
+    }
+    const parent = (r.h.state.flatLabels ?? [])[r.node.parent];
+    const value = tooltipValueOf(item, r.h, r.node);
+    const total = tooltipValueOf(item, r.h, parent);
+    if (total == null || Number.isNaN(total)) {
+      return '';
+    }
+    const { locale } = item.chart.options;
+    const formatted = `${parent.label}: ${formatNumber(total, locale!)}`;
+    if (value == null || Number.isNaN(value) || total === 0) {
+      return formatted;
+    }
+    return `${formatted} (${formatNumber(value / total, locale!, { style: 'percent', maximumFractionDigits: 1 })})`;
+  },
+};
+
+const hierarchicalPlugin: Plugin = {
+  id: 'hierarchical',
+
+  beforeUpdate(chart: Chart): void {
+    if (!enabled(chart)) {
+      return;
+    }
+    primaryHierarchies(chart).forEach((h) => check(chart as unknown as IEnhancedChart, h));
+    updateBreadcrumbs(chart);
+  },
+
+  afterUpdate(chart: Chart): void {
+    if (enabled(chart) || keyboards.has(chart)) {
+      updateKeyboard(chart);
+    }
+  },
+
+  beforeDestroy(chart: Chart): void {
+    removeKeyboard(chart);
+  },
+
+  /**
+   * draw the group bands behind everything else
+   */
+  beforeDraw(chart: Chart): void {
+    if (!enabled(chart)) {
+      return;
+    }
+    findHierarchies(chart).forEach((h) => drawBands(chart, h));
+  },
+
+  /**
+   * draw the hierarchy indicators
+   */
+  beforeDatasetsDraw(chart: Chart): void {
+    if (!enabled(chart)) {
+      return;
+    }
+    findHierarchies(chart).forEach((h) => drawHierarchy(chart, h));
+  },
+
+  beforeEvent(chart: Chart, { event }) {
+    if (event.type !== 'click' || !enabled(chart)) {
+      return;
+    }
+    const crumb = findCrumb(chart, event as { x: number; y: number });
+    if (crumb) {
+      if (crumb.node) {
+        focusNode(chart, crumb.node, crumb.scaleId);
+      } else {
+        resetFocus(chart, crumb.scaleId);
+      }
+      return;
+    }
+    const r = findHit(chart, event as { x: number; y: number });
+    if (r) {
+      handleClickEvents(chart, r.h, r.hit);
+    }
+  },
+
+  afterEvent(chart: Chart, args) {
+    const { event } = args;
+    if ((event.type !== 'mousemove' && event.type !== 'mouseout') || !(enabled(chart) || hovers.has(chart))) {
+      return;
+    }
+    const r = event.type === 'mousemove' ? findHit(chart, event as { x: number; y: number }) : null;
+    if (updateHover(chart, r, event as { x: number; y: number })) {
+      args.changed = true;
+    }
   },
 };
 
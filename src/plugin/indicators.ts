@@ -0,0 +1,183 @@
+import { addRoundedRectPath, toFont } from 'chart.js/helpers';
+import type { IIndicatorBounds, IIndicatorContext, IIndicatorRenderer, IIndicatorStyle } from '../model';
+
+/**
+ * bounds of an indicator with the given size at the anchor of the context
+ */
+function boundsOf({ x, y, vertical }: IIndicatorContext, width: number, height: number): IIndicatorBounds {
+  if (vertical) {
+    return { left: x - width, top: y - height / 2, width, height };
+  }
+  return { left: x - width / 2, top: y, width, height };
+}
+
+/**
+ * marks the start (collapse) or the end (focus) of a group in static mode
+ */
+function renderBracket(context: IIndicatorContext): IIndicatorBounds {
+  const { ctx, type, x, y, size, vertical } = context;
+  const size05 = size * 0.5;
+  const size01 = size * 0.1;
+  ctx.beginPath();
+  if (vertical) {
+    ctx.moveTo(x - size01, y);
+    ctx.lineTo(x - size05, y);
+  } else {
+    ctx.moveTo(x, y + size01);
+    ctx.lineTo(x, y + size05);
+    ctx.lineTo(x + (type === 'collapse' ? size05 : -size05), y + size05);
+  }
+  ctx.stroke();
+  return boundsOf(context, size, size);
+}
+
+function renderBox(context: IIndicatorContext): IIndicatorBounds {
+  if (context.static) {
+    return renderBracket(context);
+  }
+  const { ctx, type, size } = context;
+  const size05 = size * 0.5;
+  const bounds = boundsOf(context, size, size);
+  const { left: x0, top: y0 } = bounds;
+
+  ctx.strokeRect(x0, y0, size, size);
+
+  switch (type) {
+    case 'expand':
+      // +
+      ctx.fillRect(x0 + 2, y0 + size05 - 1, size - 4, 2);
+      ctx.fillRect(x0 + size05 - 1, y0 + 2, 2, size - 4);
+      break;
+    case 'collapse':
+      // -
+      ctx.fillRect(x0 + 2, y0 + size05 - 1, size - 4, 2);
+      break;
+    case 'focus':
+      // .
+      ctx.fillRect(x0 + size05 - 2, y0 + size05 - 2, 4, 4);
+      break;
+    case 'loading':
+      // ...
+      [0.25, 0.5, 0.75].forEach((f) => ctx.fillRect(x0 + size * f - 1, y0 + size05 - 1, 2, 2));
+  }
+  return bounds;
+}
+
+/**
+ * triangles pointing along the axis when collapsed and away from it when expanded, a ring for the focus
+ */
+function renderChevron(context: IIndicatorContext): IIndicatorBounds {
+  if (context.static) {
+    return renderBracket(context);
+  }
+  const { ctx, type, size, vertical } = context;
+  const bounds = boundsOf(context, size, size);
+  const cx = bounds.left + size / 2;
+  const cy = bounds.top + size / 2;
+  const r = size * 0.35;
+
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.beginPath();
+  switch (type) {
+    case 'expand':
+    case 'collapse':
+      if (vertical !== (type === 'collapse')) {
+        // pointing down
+        ctx.moveTo(cx - r, cy - r * 0.5);
+        ctx.lineTo(cx + r, cy - r * 0.5);
+        ctx.lineTo(cx, cy + r * 0.7);
+      } else if (vertical) {
+        // pointing left
+        ctx.moveTo(cx + r * 0.5, cy - r);
+        ctx.lineTo(cx - r * 0.7, cy);
+        ctx.lineTo(cx + r * 0.5, cy + r);
+      } else {
+        // pointing right
+        ctx.moveTo(cx - r * 0.5, cy - r);
+        ctx.lineTo(cx + r * 0.7, cy);
+        ctx.lineTo(cx - r * 0.5, cy + r);
+      }
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'focus':
+      ctx.arc(cx, cy, r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillRect(cx - 1, cy - 1, 2, 2);
+      break;
+    default:
+      [-r, 0, r].forEach((dx) => ctx.fillRect(cx + dx - 1, cy - 1, 2, 2));
+  }
+  ctx.restore();
+  return bounds;
+}
+
+/**
+ * text of an indicator, expand shows the number of children
+ */
+function glyphOf({ type, node }: IIndicatorContext) {
+  switch (type) {
+    case 'expand':
+      return node.children.length > 0 ? `+${node.children.length}` : '+';
+    case 'collapse':
+      return '−';
+    case 'focus':
+      return '•';
+    default:
+      return '…';
+  }
+}
+
+/**
+ * renders the glyph of the indicator centered in the given bounds
+ */
+function renderGlyph(context: IIndicatorContext, rounded: boolean): IIndicatorBounds {
+  const { ctx, size } = context;
+  const text = glyphOf(context);
+  ctx.save();
+  ctx.font = toFont({ size: Math.round(size * 0.75) }).string;
+  const textWidth = ctx.measureText(text).width;
+  const bounds = boundsOf(context, Math.max(size, textWidth + (rounded ? size * 0.6 : 0)), size);
+  if (rounded) {
+    ctx.beginPath();
+    const radius = size / 2;
+    addRoundedRectPath(ctx, {
+      x: bounds.left,
+      y: bounds.top,
+      w: bounds.width,
+      h: bounds.height,
+      radius: { topLeft: radius, topRight: radius, bottomLeft: radius, bottomRight: radius },
+    });
+    ctx.stroke();
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, bounds.left + bounds.width / 2, bounds.top + size / 2);
+  ctx.restore();
+  return bounds;
+}
+
+/**
+ * rounded pills showing the number of children
+ */
+function renderPill(context: IIndicatorContext): IIndicatorBounds {
+  return context.static ? renderBracket(context) : renderGlyph(context, true);
+}
+
+/**
+ * text glyphs without an outline
+ */
+function renderText(context: IIndicatorContext): IIndicatorBounds {
+  return context.static ? renderBracket(context) : renderGlyph(context, false);
+}
+
+/**
+ * built-in indicator styles
+ */
+export const indicatorRenderers: Record<IIndicatorStyle, IIndicatorRenderer> = {
+  box: renderBox,
+  chevron: renderChevron,
+  pill: renderPill,
+  text: renderText,
+};
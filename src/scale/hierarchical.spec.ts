@@ -0,0 +1,238 @@
+import type { Chart, ChartData } from 'chart.js';
+import type { HierarchicalScale } from './hierarchical';
+import { createChart, createChartOf, visibleLabels } from '../__tests__/createChart';
+import { expandNode, collapseNode, filterNodes } from '../plugin/hierarchical';
+
+interface IGridLineItem {
+  width: number;
+  color: string;
+  borderDash: number[];
+}
+
+const labels = [
+  { label: 'A', expand: true, children: [{ label: 'a1', expand: true, children: ['x', 'y'] }, 'a2'] },
+  { label: 'B', expand: true, children: ['b1', 'b2'] },
+  'C',
+];
+const tree = [{ value: 3, children: [{ value: 1, children: [0.5, 0.5] }, 2] }, { value: 4, children: [4, 2] }, 5];
+
+function gridLinesOf(scale: HierarchicalScale) {
+  return (scale as unknown as { _gridLineItems: IGridLineItem[] })._gridLineItems;
+}
+
+describe('group boundaries', () => {
+  test('levels', () => {
+    const chart = createChart(labels, tree);
+    const scale = chart.scales.x as HierarchicalScale;
+    expect(visibleLabels(chart)).toEqual(['x', 'y', 'a2', 'b1', 'b2', 'C']);
+    const boundaries = scale.ticks.map((_, i) => scale._gridBoundary(i));
+    expect(boundaries.map((d) => d?.level)).toEqual([0, 2, 1, 0, 1, 0]);
+    expect(boundaries.map((d) => d?.siblings)).toEqual([false, true, false, false, true, false]);
+  });
+
+  test('grid line styles per level', () => {
+    const chart = createChart(labels, tree, {
+      x: {
+        type: 'hierarchical',
+        hierarchyGridLineWidth: [3, 1],
+        hierarchyGridColor: ['red', 'blue', 'green'],
+        hierarchyGridDash: [[], [4, 2]],
+      },
+    });
+    const lines = gridLinesOf(chart.scales.x as HierarchicalScale);
+    // the last line is the outer edge
+    expect(lines.map((d) => d.width)).toEqual([3, 3, 1, 3, 1, 3, 3]);
+    expect(lines.map((d) => d.color)).toEqual(['red', 'green', 'blue', 'red', 'blue', 'red', 'red']);
+    expect(lines.map((d) => d.borderDash)).toEqual([[], [], [4, 2], [], [4, 2], [], []]);
+  });
+
+  test('hidden siblings and explicit options', () => {
+    const siblings = createChart(labels, tree, {
+      x: { type: 'hierarchical', hierarchyGridLineWidth: 2, hierarchyGridSiblings: false },
+    });
+    expect(gridLinesOf(siblings.scales.x as HierarchicalScale).map((d) => d.width)).toEqual([2, 0, 2, 2, 0, 2, 2]);
+    const explicit = createChart(labels, tree, {
+      x: { type: 'hierarchical', hierarchyGridLineWidth: 2, grid: { lineWidth: 5 } },
+    });
+    expect(gridLinesOf(explicit.scales.x as HierarchicalScale).map((d) => d.width)).toEqual([5, 5, 5, 5, 5, 5, 5]);
+  });
+
+  test('computed once per update', () => {
+    const chart = createChart(labels, tree, { x: { type: 'hierarchical', hierarchyGridLineWidth: [3, 1] } });
+    const scale = chart.scales.x as unknown as { _computeGridBoundaries(): unknown[] };
+    const compute = scale._computeGridBoundaries.bind(scale);
+    let calls = 0;
+    scale._computeGridBoundaries = () => {
+      calls += 1;
+      return compute();
+    };
+    chart.update();
+    expect(calls).toBe(1);
+    expect(gridLinesOf(chart.scales.x as HierarchicalScale).map((d) => d.width)).toEqual([3, 3, 1, 3, 1, 3, 3]);
+  });
+
+  test('skipped ticks', () => {
+    const chart = createChart(labels, tree, {
+      x: { type: 'hierarchical', ticks: { autoSkip: true, maxTicksLimit: 3 } },
+    });
+    const scale = chart.scales.x as HierarchicalScale;
+    expect(scale.ticks.map((d) => String(d.label))).toEqual(['x', 'a2', 'b2']);
+    expect(scale.ticks.map((_, i) => scale._gridBoundary(i)?.level)).toEqual([0, 1, 0]);
+  });
+});
+
+describe('auto size', () => {
+  const collapsed = [
+    { label: 'A', children: [{ label: 'a1', children: ['x', 'y'] }, 'a2'] },
+    { label: 'B', children: ['b1', 'b2'] },
+    'C',
+  ];
+  const values = [{ value: 3, children: [{ value: 1, children: [0.5, 0.5] }, 2] }, { value: 4, children: [4, 2] }, 5];
+
+  test('extent of the expanded levels', () => {
+    const chart = createChart(collapsed, values, { x: { type: 'hierarchical', hierarchyAutoSize: true } });
+    const scale = chart.scales.x as HierarchicalScale;
+    // the buttons of the collapsed nodes
+    expect(scale._hierarchyExtent()).toBe(14);
+    const height = scale.height;
+    expandNode(chart, ['A']);
+    // the row of A with its label and the buttons of a1
+    expect(scale._hierarchyExtent()).toBe(44);
+    expect(scale.height).toBe(height + 30);
+    expandNode(chart, ['A', 'a1']);
+    expect(scale._hierarchyExtent()).toBeCloseTo(58.4);
+    collapseNode(chart, ['A']);
+    expect(scale.height).toBe(height);
+  });
+
+  test('vertical', () => {
+    const chart = createChart(
+      collapsed,
+      values,
+      { y: { type: 'hierarchical', hierarchyAutoSize: true } },
+      {
+        indexAxis: 'y',
+      }
+    );
+    expandNode(chart, ['B']);
+    // the button of B along with its label next to it
+    expect((chart.scales.y as HierarchicalScale)._hierarchyExtent()).toBe(24);
+  });
+
+  test('opt-in', () => {
+    const auto = createChart(collapsed, values, { x: { type: 'hierarchical', hierarchyAutoSize: true } });
+    const manual = createChart(collapsed, values);
+    const scale = manual.scales.x as HierarchicalScale;
+    expect(auto.scales.x.height).toBe(scale.height + 14 + scale.options.padding);
+    expect(scale._hierarchyOrigin()).toEqual({ x: scale.left, y: scale.bottom + scale.options.padding });
+  });
+
+  test('limited by the layout', () => {
+    const deep = { type: 'hierarchical', hierarchyAutoSize: true, hierarchyBoxLineHeight: 200 };
+    const chart = createChart(collapsed, values, { x: deep });
+    expandNode(chart, ['A', 'a1']);
+    const scale = chart.scales.x as HierarchicalScale;
+    expect(scale._hierarchyExtent()).toBeGreaterThan(scale.maxHeight);
+    expect(scale.height).toBe(scale.maxHeight);
+    expect(chart.chartArea.bottom - chart.chartArea.top).toBeGreaterThan(0);
+
+    const vertical = createChart(collapsed, values, { y: deep }, { indexAxis: 'y' });
+    expandNode(vertical, ['A', 'a1']);
+    const y = vertical.scales.y as HierarchicalScale;
+    expect(y.width).toBe(y.maxWidth);
+    expect(vertical.chartArea.right - vertical.chartArea.left).toBeGreaterThan(0);
+  });
+
+  test('room on the outer side of the tick labels', () => {
+    const bottom = createChart(collapsed, values, { x: { type: 'hierarchical', hierarchyAutoSize: true } });
+    const top = createChart(collapsed, values, {
+      x: { type: 'hierarchical', hierarchyAutoSize: true, position: 'top' },
+    });
+    const b = bottom.scales.x as HierarchicalScale;
+    const t = top.scales.x as HierarchicalScale;
+    const room = 14 + b.options.padding;
+    expect(b._hierarchyOrigin().y).toBe(b.bottom - room + b.options.padding);
+    expect(b._tickRange()).toEqual({ start: b.top, end: b.bottom - room });
+    expect(t._hierarchyOrigin().y).toBe(t.top);
+    expect(t._tickRange()).toEqual({ start: t.top + room, end: t.bottom });
+
+    const right = createChart(
+      collapsed,
+      values,
+      { y: { type: 'hierarchical', hierarchyAutoSize: true, position: 'right' } },
+      { indexAxis: 'y' }
+    );
+    const r = right.scales.y as HierarchicalScale;
+    expect(r._hierarchyOrigin().x).toBe(r.right);
+    expect(r._tickRange()).toEqual({ start: r.left, end: r.right - room });
+  });
+});
+
+describe('matrix', () => {
+  const points = [
+    { x: 'Apple', y: 'DE', r: 10 },
+    { x: 'Banana', y: 'FR', r: 5 },
+    { x: ['Vegetables', 'Carrot'], y: 'JP', r: 8 },
+    { x: 'Leek', y: ['APAC', 'AU'], r: 3 },
+  ];
+
+  function createMatrix() {
+    // the labels of the axes aren't part of the chart.js typings
+    const data = {
+      xLabels: [
+        { label: 'Fruits', children: ['Apple', 'Banana'] },
+        { label: 'Vegetables', children: ['Carrot', 'Leek'] },
+      ],
+      yLabels: [
+        { label: 'EMEA', children: ['DE', 'FR'] },
+        { label: 'APAC', children: ['JP', 'AU'] },
+      ],
+      datasets: [{ label: 'Sales', data: points }],
+    } as unknown as ChartData<'bubble'>;
+    return createChartOf({
+      type: 'bubble',
+      data,
+      options: {
+        animation: false,
+        responsive: false,
+        scales: { x: { type: 'hierarchical' }, y: { type: 'hierarchical' } },
+      },
+    });
+  }
+
+  function parsedOf(chart: Chart) {
+    return (chart.getDatasetMeta(0)._parsed as { x: number; y: number }[]).map((d) => [d.x, d.y]);
+  }
+
+  test('points at the collapsed parents', () => {
+    const chart = createMatrix();
+    expect(parsedOf(chart)).toEqual([
+      [0, 0],
+      [0, 0],
+      [1, 1],
+      [1, 1],
+    ]);
+  });
+
+  test('resolved again after expand and filter', () => {
+    const chart = createMatrix();
+    expandNode(chart, ['Fruits'], 'x');
+    expandNode(chart, ['APAC'], 'y');
+    // x: Apple, Banana, Vegetables - y: EMEA, JP, AU
+    expect(parsedOf(chart)).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 1],
+      [2, 2],
+    ]);
+    filterNodes(chart, 'Banana', 'x');
+    filterNodes(chart, 'DE', 'y');
+    // x: Banana - y: DE
+    expect(parsedOf(chart)).toEqual([
+      [null, 0],
+      [0, null],
+      [null, null],
+      [null, null],
+    ]);
+  });
+});
@@ -1,8 +1,32 @@
-import { CategoryScale, CategoryScaleOptions, registry } from 'chart.js';
-import { merge } from 'chart.js/helpers';
-import hierarchicalPlugin from 'src/plugin';
-import { parentsOf } from '../utils';
-import type { ILabelNodes, IEnhancedChart } from '../model';
+import {
+  CategoryScale,
+  CategoryScaleOptions,
+  registry,
+  defaults,
+  Chart,
+  FontSpec,
+  ScriptableScaleContext,
+} from 'chart.js';
+import { merge, toFont, toPadding, valueOrDefault } from 'chart.js/helpers';
+import hierarchicalPlugin from '../plugin';
+import { countCommonParents, findNodeByPath, parentsOf, wrapText } from '../utils';
+import type {
+  ILabelNodes,
+  ILabelNode,
+  IEnhancedChart,
+  IAggregation,
+  IDataBinding,
+  ILoadedChildren,
+  ISortOption,
+  ITopNSpec,
+  ILabelsKey,
+  IHierarchyState,
+  IHierarchyCallback,
+  IHierarchyStyleOption,
+  IHierarchyStyles,
+  IIndicatorStyle,
+  IIndicatorRenderer,
+} from '../model';
 
 export interface IHierarchicalScaleOptions extends CategoryScaleOptions {
   /**
@@ -33,29 +57,143 @@ export interface IHierarchicalScaleOptions extends CategoryScaleOptions {
    */
   static: boolean;
   /**
-   * size of the box to draw
+   * size of the box to draw, can be given per level or as function of the node
    */
-  hierarchyBoxSize: number;
+  hierarchyBoxSize: IHierarchyStyleOption<number>;
   /**
    * distance between two hierarchy indicators
    */
   hierarchyBoxLineHeight: number;
   /**
-   * color of the line indicator hierarchy children
+   * color of the line indicator hierarchy children, can be given per level or as function of the node
    */
-  hierarchySpanColor: string;
+  hierarchySpanColor: IHierarchyStyleOption<string>;
   /**
-   * stroke width of the line
+   * stroke width of the line, can be given per level or as function of the node
    */
-  hierarchySpanWidth: number;
+  hierarchySpanWidth: IHierarchyStyleOption<number>;
   /**
-   * color of the box to toggle collapse/expand
+   * color of the box to toggle collapse/expand, can be given per level or as function of the node
    */
-  hierarchyBoxColor: string;
+  hierarchyBoxColor: IHierarchyStyleOption<string>;
   /**
    * stroke width of the toggle box
    */
   hierarchyBoxWidth: number;
+  /**
+   * color of the bands shading the chart area behind the expanded groups, can be given per level or as function of the
+   * node, null to disable
+   * @default null
+   */
+  hierarchyBandColor: IHierarchyStyleOption<string | null> | null;
+  /**
+   * whether just every second group among its siblings gets a band
+   * @default false
+   */
+  hierarchyBandAlternate: boolean;
+
+  /**
+   * width of the grid lines at the group boundaries, given per level of the boundary, i.e. 0 for the boundaries between
+   * top level groups. The values are repeated for deeper levels. null for the default grid line width
+   * @default null
+   */
+  hierarchyGridLineWidth: number | readonly number[] | null;
+  /**
+   * color of the grid lines at the group boundaries, given per level of the boundary
+   * @default null
+   */
+  hierarchyGridColor: string | readonly string[] | null;
+  /**
+   * dash of the grid lines at the group boundaries, given per level of the boundary
+   * @default null
+   */
+  hierarchyGridDash: readonly number[] | readonly (readonly number[])[] | null;
+  /**
+   * whether grid lines are drawn between siblings of the same parent
+   * @default true
+   */
+  hierarchyGridSiblings: boolean;
+
+  /**
+   * how group labels which don't fit into the extent of their group are rendered: as is, wrapped into multiple lines,
+   * shortened by an ellipsis, rotated, or hidden. Shortened labels are shown in full on hover
+   * @default 'visible'
+   */
+  hierarchyLabelOverflow: 'visible' | 'wrap' | 'ellipsis' | 'rotate' | 'hide';
+
+  /**
+   * whether the scale reserves the room for the rendered hierarchy, i.e. the expanded levels along with their labels,
+   * instead of relying on a manually tuned layout padding. The room is placed on the outer side of the tick labels,
+   * i.e. above them for a scale at the top and right of them for a scale at the right. Like the ticks, the room is
+   * limited by the maximal size the layout grants the scale
+   * @default false
+   */
+  hierarchyAutoSize: boolean;
+
+  /**
+   * style of the buttons or a custom renderer, with other styles than 'box' the buttons are hit tested using the
+   * bounds returned by the renderer
+   * @default 'box'
+   */
+  hierarchyIndicator: IIndicatorStyle | IIndicatorRenderer;
+  /**
+   * font of the group labels, can be given per level or as function of the node, by default the title font
+   * @default null
+   */
+  hierarchyLabelFont: IHierarchyStyleOption<Partial<FontSpec>> | null;
+  /**
+   * color of the group labels, can be given per level or as function of the node, by default the title color
+   * @default null
+   */
+  hierarchyLabelColor: IHierarchyStyleOption<string> | null;
+  /**
+   * color of the line indicator of the hovered group
+   * @default 'black'
+   */
+  hierarchySpanHoverColor: string;
+  /**
+   * color of the box of the hovered group
+   * @default 'black'
+   */
+  hierarchyBoxHoverColor: string;
+  /**
+   * whether the bars of the hovered group are highlighted using their hover style
+   * @default false
+   */
+  hoverHighlightGroup: boolean;
+
+  /**
+   * whether a clickable breadcrumb of the path to the focused node is shown above the chart area
+   * @default false
+   */
+  breadcrumb: boolean;
+  /**
+   * label of the first crumb which resets the focus
+   * @default 'All'
+   */
+  breadcrumbRootLabel: string;
+  /**
+   * separator between the crumbs
+   * @default ' > '
+   */
+  breadcrumbSeparator: string;
+
+  /**
+   * whether the tooltip title shows the full path of the label instead of the label only
+   * @default false
+   */
+  tooltipPath: boolean;
+  /**
+   * separator between the path labels in the tooltip title
+   * @default ' / '
+   */
+  tooltipPathSeparator: string;
+  /**
+   * whether hovering a group on the axis shows the tooltip of the group, use along with `hierarchicalTooltipCallbacks`
+   * to show its aggregated value per dataset
+   * @default false
+   */
+  groupTooltip: boolean;
 
   /**
    * object of attributes that should be managed and extracted from the tree
@@ -65,11 +203,186 @@ export interface IHierarchicalScaleOptions extends CategoryScaleOptions {
    */
   attributes: { [attribute: string]: any };
 
+  /**
+   * aggregation to compute the value of group nodes which don't have an explicit value in the data tree,
+   * one of 'sum', 'mean', 'min', 'max', 'count' or a custom reducer, null to disable.
+   * It reduces the values of the leaves of the group, a descendant with an explicit value stands for its sub tree.
+   * Thus 'mean' is the mean of these values and not the mean of the values of the children.
+   * Can be overridden by the dataset `aggregate` property
+   * @default null
+   */
+  aggregate: IAggregation | null;
+
+  /**
+   * whether the nodes of the dataset trees are matched to the label nodes by their position ('index')
+   * or by their `key` attribute ('key'), which has to be equal to the id or label of the label node
+   * @default 'index'
+   */
+  dataBinding: IDataBinding;
+
+  /**
+   * value of label nodes without a matching value node in the 'key' data binding mode
+   * @default null
+   */
+  missingValue: number | null;
+
+  /**
+   * whether the expand and focus state of the nodes is kept when the labels are replaced,
+   * nodes are matched by their id or their path of labels. Matched nodes are updated in place, thus references to
+   * them stay valid. An `expand` of a new label wins if the node is new or the label declares a different one than
+   * before
+   * @default false
+   */
+  preserveExpandState: boolean;
+
+  /**
+   * loads the children of nodes marked as `lazy` when they are expanded for the first time
+   * @default null
+   */
+  loadChildren: ((node: ILabelNode, chart: Chart) => Promise<ILoadedChildren>) | null;
+
+  /**
+   * called when loading the children of a node fails, the node can be expanded again to retry
+   * @default null
+   */
+  onLoadError: ((node: ILabelNode, error: unknown, chart: Chart) => void) | null;
+
+  /**
+   * sorts the children of each node by 'label', by 'value' (of the first dataset),
+   * by a sort spec like `{ by: 'value', order: 'desc', dataset: 1 }`, or by a custom comparator.
+   * An array defines the sort option per level, null to keep the order of the labels
+   * @default null
+   */
+  sort: ISortOption | (ISortOption | null)[] | null;
+
+  /**
+   * keeps the N largest children (by the value of the first dataset) of each node and groups the remaining ones
+   * in a synthetic 'Other (k)' node, which can be expanded to reveal them. Its path is the one of its parent followed
+   * by the label without the count, e.g. `['EMEA', 'Other']`.
+   * A spec like `{ count: 5, dataset: 1, label: 'Rest' }` customizes the dataset and label, null to show all children
+   * @default null
+   */
+  topN: number | ITopNSpec | null;
+
+  /**
+   * called before a node is expanded, returning false cancels it
+   * @default null
+   */
+  onBeforeExpand: IHierarchyCallback<boolean | void> | null;
+
+  /**
+   * called after a node has been expanded
+   * @default null
+   */
+  onExpand: IHierarchyCallback | null;
+
+  /**
+   * called before a node is collapsed, returning false cancels it
+   * @default null
+   */
+  onBeforeCollapse: IHierarchyCallback<boolean | void> | null;
+
+  /**
+   * called after a node has been collapsed
+   * @default null
+   */
+  onCollapse: IHierarchyCallback | null;
+
+  /**
+   * called before a node is focused, returning false cancels it
+   * @default null
+   */
+  onBeforeFocus: IHierarchyCallback<boolean | void> | null;
+
+  /**
+   * called after a node has been focused
+   * @default null
+   */
+  onFocus: IHierarchyCallback | null;
+
+  /**
+   * called before the focus of a node is reset, returning false cancels it
+   * @default null
+   */
+  onBeforeZoomOut: IHierarchyCallback<boolean | void> | null;
+
+  /**
+   * called after the focus of a node has been reset
+   * @default null
+   */
+  onZoomOut: IHierarchyCallback | null;
+
+  /**
+   * enables the keyboard navigation of the hierarchy when the chart has the focus: the arrow keys move between
+   * the visible nodes and levels, Enter/Space expand or collapse, 'f' focuses or zooms out, Escape zooms out,
+   * and 'a' switches between hierarchical axes. The current node is announced to screen readers
+   * @default false
+   */
+  keyboard: boolean;
+
   offset: true;
 }
 
-const defaultConfig: Partial<Omit<IHierarchicalScaleOptions, 'grid'>> & {
+/**
+ * options whose function values are passed as is instead of being resolved as scriptable options
+ */
+const nonScriptableOptions = [
+  'hierarchyBoxSize',
+  'hierarchyBoxColor',
+  'hierarchySpanColor',
+  'hierarchySpanWidth',
+  'hierarchyLabelFont',
+  'hierarchyLabelColor',
+  'hierarchyIndicator',
+  'hierarchyBandColor',
+  'aggregate',
+  'loadChildren',
+  'onLoadError',
+  'sort',
+  'onBeforeExpand',
+  'onExpand',
+  'onBeforeCollapse',
+  'onCollapse',
+  'onBeforeFocus',
+  'onFocus',
+  'onBeforeZoomOut',
+  'onZoomOut',
+];
+
+/**
+ * resolves the given grid line option according to the level of the group boundary at the grid line
+ */
+function gridLineStyle<T>(
+  ctx: ScriptableScaleContext,
+  key: 'hierarchyGridLineWidth' | 'hierarchyGridColor' | 'hierarchyGridDash',
+  fallback: T
+): T {
+  const scale = ctx.scale as HierarchicalScale;
+  const option = scale.options[key] as T | readonly T[] | null;
+  // the last grid line and the axis border are resolved without an index, i.e. as the outer edge
+  const boundary = scale._gridBoundary(ctx.index ?? scale.ticks.length);
+  if (!boundary) {
+    return option == null || Array.isArray(option) ? fallback : (option as T);
+  }
+  if (key === 'hierarchyGridLineWidth' && boundary.siblings && !scale.options.hierarchyGridSiblings) {
+    return 0 as unknown as T;
+  }
+  if (option == null) {
+    return fallback;
+  }
+  // a dash is an array itself
+  const perLevel = Array.isArray(option) && (key !== 'hierarchyGridDash' || Array.isArray(option[0]));
+  if (!perLevel) {
+    return option as T;
+  }
+  const levels = option as readonly T[];
+  return levels[boundary.level % levels.length];
+}
+
+const defaultConfig: Partial<Omit<IHierarchicalScaleOptions, 'grid' | 'border'>> & {
   grid: Partial<IHierarchicalScaleOptions['grid']>;
+  border: Partial<IHierarchicalScaleOptions['border']>;
+  _scriptable: (name: string) => boolean;
 } = {
   // offset settings, for centering the categorical axis in the bar chart case
   offset: true,
@@ -77,6 +390,12 @@ const defaultConfig: Partial<Omit<IHierarchicalScaleOptions, 'grid'>> & {
   // grid line settings
   grid: {
     offset: true,
+    lineWidth: (ctx) => gridLineStyle(ctx, 'hierarchyGridLineWidth', 1),
+    color: (ctx) => gridLineStyle(ctx, 'hierarchyGridColor', defaults.borderColor as string),
+  },
+
+  border: {
+    dash: (ctx) => gridLineStyle<number[]>(ctx, 'hierarchyGridDash', []),
   },
 
   static: false,
@@ -122,9 +441,123 @@ const defaultConfig: Partial<Omit<IHierarchicalScaleOptions, 'grid'>> & {
    */
   hierarchyBoxWidth: 1,
 
+  hierarchyBandColor: null,
+
+  hierarchyBandAlternate: false,
+
+  hierarchyGridLineWidth: null,
+
+  hierarchyGridColor: null,
+
+  hierarchyGridDash: null,
+
+  hierarchyGridSiblings: true,
+
+  hierarchyLabelOverflow: 'visible',
+
+  hierarchyAutoSize: false,
+
+  hierarchyIndicator: 'box',
+
+  hierarchyLabelFont: null,
+
+  hierarchyLabelColor: null,
+  /**
+   * color of the line indicator of the hovered group
+   */
+  hierarchySpanHoverColor: 'black',
+  /**
+   * color of the box of the hovered group
+   */
+  hierarchyBoxHoverColor: 'black',
+
+  hoverHighlightGroup: false,
+
+  breadcrumb: false,
+
+  breadcrumbRootLabel: 'All',
+
+  breadcrumbSeparator: ' > ',
+
+  tooltipPath: false,
+
+  tooltipPathSeparator: ' / ',
+
+  groupTooltip: false,
+
   attributes: {},
+
+  aggregate: null,
+
+  dataBinding: 'index',
+
+  missingValue: null,
+
+  preserveExpandState: false,
+
+  loadChildren: null,
+
+  onLoadError: null,
+
+  sort: null,
+
+  topN: null,
+
+  onBeforeExpand: null,
+
+  onExpand: null,
+
+  onBeforeCollapse: null,
+
+  onCollapse: null,
+
+  onBeforeFocus: null,
+
+  onFocus: null,
+
+  onBeforeZoomOut: null,
+
+  onZoomOut: null,
+
+  keyboard: false,
+
+  /**
+   * same as the chart.js scale default but custom functions like aggregate are no scriptable options
+   */
+  _scriptable: (name: string) =>
+    !name.startsWith('before') &&
+    !name.startsWith('after') &&
+    name !== 'callback' &&
+    name !== 'parser' &&
+    !nonScriptableOptions.includes(name),
 };
 
+/**
+ * height of the scale title, same as computed by chart.js
+ */
+function titleHeight(title: HierarchicalScale['options']['title'], fallback: Partial<FontSpec>) {
+  if (!title.display) {
+    return 0;
+  }
+  const font = toFont(title.font as Partial<FontSpec>, fallback);
+  const lines = Array.isArray(title.text) ? title.text.length : 1;
+  return lines * font.lineHeight + toPadding(title.padding as number).height;
+}
+
+/**
+ * group boundary at a grid line between two ticks
+ */
+export interface IGridBoundary {
+  /**
+   * number of common parents of the neighboring labels
+   */
+  level: number;
+  /**
+   * whether the neighboring labels are siblings
+   */
+  siblings: boolean;
+}
+
 export interface IInternalScale {
   _valueRange: number;
   _startValue: number;
@@ -135,6 +568,16 @@ export interface IInternalScale {
 export class HierarchicalScale extends CategoryScale<IHierarchicalScaleOptions> {
   private _nodes: ILabelNodes = [];
 
+  /**
+   * room reserved for the rendered hierarchy while fitting
+   */
+  private _hierarchySize = 0;
+
+  /**
+   * group boundaries at the grid lines, computed while fitting
+   */
+  private _gridBoundaries: IGridBoundary[] = [];
+
   determineDataLimits(): void {
     const labels = this.getLabels() as unknown as ILabelNodes;
 
@@ -144,6 +587,255 @@ export class HierarchicalScale extends CategoryScale<IHierarchicalScaleOptions>
     super.determineDataLimits();
   }
 
+  /**
+   * key of the chart data labels this scale is using
+   */
+  _labelsKey(): ILabelsKey {
+    const { data } = this.chart as unknown as IEnhancedChart;
+    if (this.isHorizontal() ? data.xLabels : data.yLabels) {
+      return this.isHorizontal() ? 'xLabels' : 'yLabels';
+    }
+    return 'labels';
+  }
+
+  /**
+   * state of the hierarchy of the labels this scale is using
+   */
+  _hierarchy(): IHierarchyState {
+    const { data } = this.chart as unknown as IEnhancedChart;
+    const key = this._labelsKey();
+    if (key === 'labels') {
+      return data;
+    }
+    const stateKey = key === 'xLabels' ? 'xHierarchy' : 'yHierarchy';
+    if (!data[stateKey]) {
+      data[stateKey] = {};
+    }
+    return data[stateKey]!;
+  }
+
+  /**
+   * besides indices, labels and paths of labels are resolved to the visible node representing them, e.g. for matrix like charts
+   */
+  parse(raw: unknown, index: number): number {
+    if (typeof raw !== 'string' && !Array.isArray(raw)) {
+      return super.parse(raw, index) as number;
+    }
+    const labels = this.getLabels() as unknown as ILabelNodes;
+    const flat = this._hierarchy().flatLabels ?? [];
+    let node = Array.isArray(raw) ? findNodeByPath(flat, raw) : flat.find((d) => d.id === raw || d.label === raw);
+    // collapsed nodes are represented by their visible parent
+    while (node && !labels.includes(node)) {
+      node = node.parent >= 0 ? flat[node.parent] : undefined;
+    }
+    return node ? labels.indexOf(node) : (null as unknown as number);
+  }
+
+  /**
+   * the path of the given label node joined by the tooltip path separator
+   */
+  _pathLabel(node: ILabelNode): string {
+    const flat = this._hierarchy().flatLabels ?? [];
+    return parentsOf(node, flat)
+      .map((d) => d.label)
+      .join(this.options.tooltipPathSeparator);
+  }
+
+  getLabelForValue(value: number): string {
+    const node = (this.getLabels() as unknown as ILabelNodes)[value];
+    if (!node || !this.options.tooltipPath) {
+      return super.getLabelForValue(value);
+    }
+    return this._pathLabel(node);
+  }
+
+  /**
+   * resolves a style of the hierarchy indicators for the given node, a node property set on the node or one of its
+   * parents wins over the scale option which can be given per level or as a function of the node
+   */
+  _styleOf<K extends keyof IHierarchyStyles>(node: ILabelNode, key: K): IHierarchyStyles[K] {
+    const flat = this._hierarchy().flatLabels ?? [];
+    let n: ILabelNode | undefined = node;
+    while (n) {
+      if (n[key] != null) {
+        return n[key] as IHierarchyStyles[K];
+      }
+      // walk up the hierarchy
+      n = n.parent >= 0 ? flat[n.parent] : undefined;
+    }
+    const option = this.options[key] as IHierarchyStyleOption<IHierarchyStyles[K]> | null;
+    if (typeof option === 'function') {
+      return option({ chart: this.chart, node, level: node.level, expand: node.expand });
+    }
+    if (Array.isArray(option)) {
+      return option[node.level % option.length];
+    }
+    if (option != null) {
+      return option as IHierarchyStyles[K];
+    }
+    // the labels use the style of the scale title by default
+    const { title } = this.options;
+    if (key === 'hierarchyLabelFont') {
+      return title.font as IHierarchyStyles[K];
+    }
+    if (key === 'hierarchyLabelColor') {
+      return valueOrDefault(title.color, defaults.color) as IHierarchyStyles[K];
+    }
+    return option as IHierarchyStyles[K];
+  }
+
+  /**
+   * extent of the rendered hierarchy across the axis, i.e. of the buttons of the visible nodes and of the rows of
+   * their expanded parents along with the group labels
+   */
+  _hierarchyExtent(): number {
+    const flat = this._hierarchy().flatLabels ?? [];
+    const hor = this.isHorizontal();
+    const { ctx } = this;
+    const boxRow = this.options.hierarchyBoxLineHeight;
+    const renderLabel = this.options.hierarchyLabelPosition;
+    const overflow = this.options.hierarchyLabelOverflow;
+    // visible extent of the expanded groups along the axis
+    const groups = new Map<ILabelNode, { start: number; end: number }>();
+    let extent = 0;
+
+    this._nodes.forEach((node) => {
+      if (!this.options.static && !node.expand && (node.children.length > 0 || node.lazy)) {
+        extent = Math.max(extent, node.level * boxRow + this._styleOf(node, 'hierarchyBoxSize'));
+      }
+      const start = (node.center ?? 0) - (node.width ?? 0);
+      const end = (node.center ?? 0) + (node.width ?? 0);
+      parentsOf(node, flat)
+        .slice(0, -1)
+        .forEach((parent) => {
+          const group = groups.get(parent);
+          groups.set(parent, group ? { start: group.start, end } : { start, end });
+        });
+    });
+
+    groups.forEach(({ start, end }, node) => {
+      const boxSize = this._styleOf(node, 'hierarchyBoxSize');
+      const font = toFont(this._styleOf(node, 'hierarchyLabelFont'));
+      ctx.font = font.string;
+      const measure = (text: string) => ctx.measureText(text).width;
+      const width = measure(node.label);
+      // the space across the axis within the row of the level
+      const room = boxRow - boxSize;
+      let label = 0;
+      if (!hor) {
+        // labels are right aligned next to the buttons
+        if (overflow === 'visible') {
+          label = width;
+        } else if (overflow === 'rotate') {
+          label = font.lineHeight;
+        } else if (overflow !== 'hide' || width <= room) {
+          label = Math.min(width, room);
+        }
+      } else if (renderLabel === 'below') {
+        const length = Math.max(end - start, 0);
+        if (overflow === 'rotate' && width > length) {
+          label = Math.min(width, room);
+        } else if (overflow === 'wrap' && width > length) {
+          const maxLines = Math.max(1, Math.floor(room / font.lineHeight));
+          label = wrapText(node.label, length, measure, maxLines).length * font.lineHeight;
+        } else if (overflow !== 'hide' || width <= length) {
+          label = font.lineHeight;
+        }
+      }
+      extent = Math.max(extent, node.level * boxRow + boxSize + label);
+    });
+    return extent;
+  }
+
+  /**
+   * whether the reserved room is before the tick labels, i.e. for a scale at the top or at the right
+   */
+  private _hierarchyAtStart(): boolean {
+    return this._hierarchySize > 0 && this.options.position === (this.isHorizontal() ? 'top' : 'right');
+  }
+
+  /**
+   * origin of the rendered hierarchy, below a horizontal scale and left of a vertical one unless the room for it is
+   * reserved on the outer side of the tick labels
+   */
+  _hierarchyOrigin(): { x: number; y: number } {
+    const { padding } = this.options;
+    const hor = this.isHorizontal();
+    if (this._hierarchySize <= 0) {
+      return hor ? { x: this.left, y: this.bottom + padding } : { x: this.left - padding, y: this.top };
+    }
+    // within the reserved room between the ticks and the title
+    const title = titleHeight(this.options.title, this.chart.options.font as Partial<FontSpec>);
+    if (this._hierarchyAtStart()) {
+      return hor ? { x: this.left, y: this.top + title } : { x: this.right - title, y: this.top };
+    }
+    return hor
+      ? { x: this.left, y: this.bottom - title - this._hierarchySize + padding }
+      : { x: this.left + title + this._hierarchySize - padding, y: this.top };
+  }
+
+  /**
+   * range across the axis covered by the tick labels, i.e. the scale without the reserved room and the title
+   */
+  _tickRange(): { start: number; end: number } {
+    const hor = this.isHorizontal();
+    const start = hor ? this.top : this.left;
+    const end = hor ? this.bottom : this.right;
+    if (this._hierarchySize <= 0) {
+      return { start, end };
+    }
+    const reserved =
+      titleHeight(this.options.title, this.chart.options.font as Partial<FontSpec>) + this._hierarchySize;
+    // the room precedes the ticks for a scale at the top and for one at the left
+    const before = hor === this._hierarchyAtStart();
+    return before ? { start: start + reserved, end } : { start, end: end - reserved };
+  }
+
+  fit(): void {
+    super.fit();
+    // the ticks are final at this point
+    this._gridBoundaries = this._computeGridBoundaries();
+    const extent = this.options.hierarchyAutoSize ? this._hierarchyExtent() : 0;
+    const hor = this.isHorizontal();
+    // within the limit given by the layout, like the ticks
+    const room = hor ? this.maxHeight - this.height : this.maxWidth - this.width;
+    this._hierarchySize = extent > 0 ? Math.max(0, Math.min(extent + this.options.padding, room)) : 0;
+    if (hor) {
+      this.height += this._hierarchySize;
+    } else {
+      this.width += this._hierarchySize;
+    }
+  }
+
+  /**
+   * determines the group boundaries at the grid lines before the ticks and after the last one
+   */
+  private _computeGridBoundaries(): IGridBoundary[] {
+    if (!this.options.grid.offset) {
+      return [];
+    }
+    const flat = this._hierarchy().flatLabels ?? [];
+    // the ticks might be skipped
+    const nodes = this.ticks.map((tick) => this._nodes[this.min + tick.value]);
+    return [...nodes, undefined].map((after, index) => {
+      const before = nodes[index - 1];
+      if (!before || !after) {
+        // the outer edges
+        return { level: 0, siblings: false };
+      }
+      return { level: countCommonParents(before, after, flat), siblings: before.parent === after.parent };
+    });
+  }
+
+  /**
+   * the group boundary at the grid line before the tick at the given index
+   * @returns its level, i.e. the number of common parents of the neighboring labels, and whether they are siblings,
+   * null if the grid lines aren't between the ticks
+   */
+  _gridBoundary(index: number): IGridBoundary | null {
+    return this._gridBoundaries[index] ?? null;
+  }
+
   buildTicks(): {
     label: string;
     value: number;
@@ -163,7 +855,7 @@ export class HierarchicalScale extends CategoryScale<IHierarchicalScaleOptions>
   configure(): void {
     super.configure();
     const nodes = this._nodes.slice(this.min, this.max + 1);
-    const flat = (this.chart as unknown as IEnhancedChart).data.flatLabels ?? [];
+    const flat = this._hierarchy().flatLabels ?? [];
     const total = (this as unknown as IInternalScale)._length;
 
     if (nodes.length === 0) {
@@ -177,26 +869,18 @@ export class HierarchicalScale extends CategoryScale<IHierarchicalScaleOptions>
     const distances: number[] = [];
 
     let prev = nodes[0];
-    let prevParents = parentsOf(prev, flat);
     distances.push(0.5); // half top level distance before and after
 
     for (let i = 1; i < nodes.length; i += 1) {
       const n = nodes[i];
-      const parents = parentsOf(n, flat);
       if (prev.parent === n.parent) {
         // same parent -> can use the level distance
         distances.push(Math.pow(ratio, n.level));
       } else {
         // different level -> use the distance of the common parent
-        // find level of common parent
-        let common = 0;
-        while (parents[common] === prevParents[common]) {
-          common += 1;
-        }
-        distances.push(Math.pow(ratio, common));
+        distances.push(Math.pow(ratio, countCommonParents(n, prev, flat)));
       }
       prev = n;
-      prevParents = parents;
     }
     distances.push(0.5);
 
@@ -241,7 +925,22 @@ export class HierarchicalScale extends CategoryScale<IHierarchicalScaleOptions>
   }
 
   getValueForPixel(pixel: number): number {
-    return this._nodes.findIndex((d) => pixel >= d.center - d.width / 2 && pixel <= d.center + d.width / 2);
+    // binary search for the first node whose range ends after the pixel, since the nodes are sorted by their center
+    const nodes = this._nodes;
+    let lo = 0;
+    let hi = nodes.length;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (nodes[mid].center + nodes[mid].width / 2 < pixel) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    if (lo < nodes.length && pixel >= nodes[lo].center - nodes[lo].width / 2) {
+      return lo;
+    }
+    return -1;
   }
 
   static id = 'hierarchical';
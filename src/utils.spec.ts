@@ -1,5 +1,7 @@
 import {
   asNode,
+  ellipsize,
+  wrapText,
   toNodes,
   parentsOf,
   lastOfLevel,
@@ -8,9 +10,29 @@ import {
   flatChildren,
   determineVisible,
   ISpanLogicResult,
+  resolve,
+  aggregate,
+  leafValues,
+  fromRecords,
+  findNodeById,
+  findNodeByPath,
+  pathOf,
+  insertChildren,
+  insertValueChildren,
+  isInSubTree,
+  countCommonParents,
+  sortNodes,
+  groupOthers,
+  ungroupOthers,
+  applyFilter,
+  revertFilter,
+  toFilterPredicate,
+  toViewState,
+  applyViewState,
+  navigate,
 } from './utils';
 // import 'jest';
-import type { ILabelNode, IRawLabelNode } from './model';
+import type { ILabelNode, ILabelNodes, IRawLabelNode } from './model';
 
 function nodeTest(
   n: ILabelNode,
@@ -115,6 +137,158 @@ describe('toNodes', () => {
   });
 });
 
+describe('lookup', () => {
+  const labels = [
+    { label: 'EMEA', children: [{ label: 'DE', id: 'de', children: ['Berlin', 'Munich'] }, 'FR'] },
+    { label: 'APAC', children: ['DE'] },
+  ];
+
+  test('path', () => {
+    const flat = toNodes(labels);
+    expect(flat.map((d) => d.path.join('/'))).toEqual([
+      'EMEA',
+      'EMEA/DE',
+      'EMEA/DE/Berlin',
+      'EMEA/DE/Munich',
+      'EMEA/FR',
+      'APAC',
+      'APAC/DE',
+    ]);
+    expect(pathOf(flat[2])).toEqual(['EMEA', 'DE', 'Berlin']);
+  });
+
+  test('stable when rebuilt', () => {
+    const flat = toNodes(labels);
+    const again = toNodes(flat.filter((d) => d.parent === -1));
+    expect(again.map((d) => d.path)).toEqual(flat.map((d) => d.path));
+  });
+
+  test('findNodeById', () => {
+    const flat = toNodes(labels);
+    expect(findNodeById(flat, 'de')).toBe(flat[1]);
+    expect(findNodeById(flat, 'xx')).toBeUndefined();
+  });
+
+  test('findNodeByPath', () => {
+    const flat = toNodes(labels);
+    expect(findNodeByPath(flat, ['EMEA', 'DE', 'Munich'])).toBe(flat[3]);
+    expect(findNodeByPath(flat, ['APAC', 'DE'])).toBe(flat[6]);
+    expect(findNodeByPath(flat, ['APAC', 'FR'])).toBeUndefined();
+    expect(findNodeByPath(flat, [])).toBeUndefined();
+  });
+});
+
+describe('toNodes with previous state', () => {
+  const labels = () => [
+    { label: 'a', children: ['aa', { label: 'ab', children: ['aba', 'abb'] }] },
+    { label: 'b', id: 'b', children: ['ba', 'bb'] },
+    'c',
+  ];
+
+  test('preserves expand', () => {
+    const previous = toNodes(labels());
+    previous[0].expand = true;
+    previous[2].expand = 'focus';
+    const flat = toNodes(labels(), previous);
+    expect(flat[0].expand).toBe(true);
+    expect(flat[2].expand).toBe('focus');
+    expect(flat.filter((d) => !d.hidden).map((d) => d.label)).toEqual(['aa', 'aba', 'abb', 'b', 'c']);
+  });
+
+  test('matches by id', () => {
+    const previous = toNodes(labels());
+    previous.find((d) => d.id === 'b')!.expand = true;
+    const renamed = labels();
+    renamed[1] = { label: 'B', id: 'b', children: ['ba', 'bb'] };
+    const flat = toNodes(renamed, previous);
+    expect(flat.find((d) => d.id === 'b')!.expand).toBe(true);
+  });
+
+  test('explicit expand wins', () => {
+    const previous = toNodes(labels());
+    const expanded = toNodes([{ label: 'a', expand: true, children: ['aa', 'ab'] }, ...labels().slice(1)], previous);
+    expect(expanded[0].expand).toBe(true);
+    previous[0].expand = true;
+    const collapsed = toNodes([{ label: 'a', expand: false, children: ['aa', 'ab'] }, ...labels().slice(1)], previous);
+    expect(collapsed[0].expand).toBe(false);
+  });
+
+  test('declared expand wins only if changed', () => {
+    const declared = (expand: boolean | 'focus' = true) => [
+      { label: 'a', expand, children: ['aa', 'ab'] },
+      ...labels().slice(1),
+    ];
+    const previous = toNodes(declared());
+    // collapsed by the user
+    previous[0].expand = false;
+    expect(toNodes(declared(), previous)[0].expand).toBe(false);
+    expect(toNodes(declared('focus'), previous)[0].expand).toBe('focus');
+  });
+
+  test('ignores removed and keeps the state within collapsed', () => {
+    const previous = toNodes(labels());
+    previous[2].expand = true; // ab, but a is collapsed
+    const flat = toNodes([{ label: 'x', children: ['y'] }, ...labels()], previous);
+    expect(flat[0].expand).toBe(false);
+    const ab = flat.find((d) => d.label === 'ab')!;
+    expect(ab.expand).toBe(true);
+    expect(ab.hidden).toBe(true);
+  });
+
+  test('keeps the matched nodes', () => {
+    const previous = toNodes(labels());
+    const updated = labels();
+    updated[1] = { label: 'b', id: 'b', children: ['ba', 'bc'] };
+    const flat = toNodes(updated, previous);
+    expect(flat[0]).toBe(previous[0]);
+    expect(flat.find((d) => d.label === 'ba')).toBe(previous.find((d) => d.label === 'ba'));
+    expect(flat.find((d) => d.label === 'bc')).not.toBe(previous.find((d) => d.label === 'bb'));
+    expect(flat[0].children[1]).toBe(flat[2]);
+    expect(flat.map((d) => d.index)).toEqual(flat.map((_, i) => i));
+  });
+});
+
+describe('lazy', () => {
+  test('not expandable before loaded', () => {
+    const flat = toNodes([
+      { label: 'a', lazy: true, expand: true },
+      { label: 'b', lazy: true, children: ['ba'] },
+    ]);
+    expect(flat[0].expand).toBe(false);
+    expect(flat[0].lazy).toBe(true);
+    expect(flat[1].lazy).toBe(false);
+  });
+
+  test('insertChildren', () => {
+    const flat = toNodes([{ label: 'a', children: [{ label: 'aa', lazy: true }, 'ab'], expand: true }, 'b']);
+    const aa = flat[1];
+    const next = insertChildren(flat, aa, ['aaa', { label: 'aab', children: ['aaba'] }]);
+    expect(next.map((d) => d.label)).toEqual(['a', 'aa', 'aaa', 'aab', 'aaba', 'ab', 'b']);
+    expect(next.map((d) => d.index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(aa.lazy).toBe(false);
+    expect(next[3].parent).toBe(1);
+    expect(next[5].parent).toBe(0);
+    expect(next[2].path).toEqual(['a', 'aa', 'aaa']);
+    expect(next[2].hidden).toBe(true);
+  });
+
+  test('insertValueChildren', () => {
+    const flat = toNodes([{ label: 'a', children: [{ label: 'aa', lazy: true }, 'ab'] }, 'b']);
+    const tree = [{ value: 3, children: [1, 2] }, 4];
+    const next = insertChildren(flat, flat[1], ['aaa', 'aab']);
+    insertValueChildren(tree, next[1], next, [0.4, 0.6]);
+    expect(tree[0]).toEqual({ value: 3, children: [{ value: 1, children: [0.4, 0.6] }, 2] });
+    expect(resolve(next[3], next, tree)).toBe(0.6);
+  });
+
+  test('insertValueChildren by key', () => {
+    const flat = toNodes([{ label: 'a', children: [{ label: 'aa', lazy: true }, 'ab'] }, 'b']);
+    const tree = [{ key: 'b', value: 4 }];
+    insertValueChildren(tree, flat[1], flat, [{ key: 'aaa', value: 1 }], 'key');
+    expect(tree[1]).toEqual({ key: 'a', children: [{ key: 'aa', children: [{ key: 'aaa', value: 1 }] }] });
+  });
+});
+
 describe('parentsOf', () => {
   test('simple', () => {
     const nodes = toNodes([{ label: 'a', children: ['aa'] }]);
@@ -128,6 +302,49 @@ describe('parentsOf', () => {
   });
 });
 
+describe('sub tree index', () => {
+  const labels = [
+    { label: 'a', children: ['aa', { label: 'ab', children: ['aba', 'abb'] }] },
+    'b',
+    { label: 'c', children: ['ca'] },
+  ];
+
+  test('endIndex', () => {
+    const flat = toNodes(labels);
+    expect(flat.map((d) => d.endIndex)).toEqual([5, 2, 5, 4, 5, 6, 8, 8]);
+  });
+
+  test('isInSubTree', () => {
+    const flat = toNodes(labels);
+    const [a, aa, ab, aba, , b] = flat;
+    expect(isInSubTree(aba, a)).toBe(true);
+    expect(isInSubTree(aba, ab)).toBe(true);
+    expect(isInSubTree(ab, ab)).toBe(true);
+    expect(isInSubTree(aba, aa)).toBe(false);
+    expect(isInSubTree(b, a)).toBe(false);
+    expect(isInSubTree(a, aba)).toBe(false);
+  });
+
+  test('countCommonParents', () => {
+    const flat = toNodes(labels);
+    const [a, aa, , aba, abb, b, , ca] = flat;
+    expect(countCommonParents(aba, abb, flat)).toBe(2);
+    expect(countCommonParents(aa, aba, flat)).toBe(1);
+    expect(countCommonParents(aba, aa, flat)).toBe(1);
+    expect(countCommonParents(aa, a, flat)).toBe(1);
+    expect(countCommonParents(aba, ca, flat)).toBe(0);
+    expect(countCommonParents(a, b, flat)).toBe(0);
+  });
+
+  test('determineVisible with focus', () => {
+    const flat = toNodes([
+      { label: 'a', expand: true, children: ['aa', { label: 'ab', expand: 'focus', children: ['aba', 'abb'] }] },
+      'b',
+    ]);
+    expect(determineVisible(flat).map((d) => d.label)).toEqual(['aba', 'abb']);
+  });
+});
+
 describe('lastOfLevel', () => {
   test('simple', () => {
     const nodes = toNodes([{ label: 'a', children: ['aa'] }, 'b', 'c']);
@@ -432,3 +649,407 @@ describe('spanLogic', () => {
     expect(rightLastVisible).toBe(true);
   });
 });
+
+describe('aggregate', () => {
+  test('builtin', () => {
+    const values = [1, 4, 2, 5];
+    expect(aggregate(values, 'sum')).toBe(12);
+    expect(aggregate(values, 'mean')).toBe(3);
+    expect(aggregate(values, 'min')).toBe(1);
+    expect(aggregate(values, 'max')).toBe(5);
+    expect(aggregate(values, 'count')).toBe(4);
+  });
+
+  test('empty', () => {
+    expect(aggregate([], 'sum')).toBe(0);
+    expect(aggregate([], 'mean')).toBeNaN();
+    expect(aggregate([], 'min')).toBeNaN();
+    expect(aggregate([], 'max')).toBeNaN();
+    expect(aggregate([], 'count')).toBe(0);
+  });
+
+  test('custom', () => {
+    expect(aggregate([1, 2, 3], (values) => values[values.length - 1])).toBe(3);
+  });
+});
+
+describe('leafValues', () => {
+  test('nested', () => {
+    expect(leafValues({ children: [1, { children: [2, 3] }, Number.NaN, { value: 4, children: [] }] })).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  test('stops at explicit values', () => {
+    expect(leafValues({ children: [1, { value: 10, children: [2, 3] }, { children: [4, 5] }] })).toEqual([1, 10, 4, 5]);
+  });
+});
+
+describe('resolve', () => {
+  const labels = [{ label: 'a', children: ['aa', { label: 'ab', children: ['aba', 'abb'] }] }, 'b'];
+  const tree = [{ children: [1, { children: [2, 3] }] }, { value: 5, children: [] }, 6];
+
+  test('explicit value', () => {
+    const flat = toNodes(labels);
+    const tree2 = [{ value: 10, children: [1, 2] }, 3];
+    expect(resolve(flat[0], flat, tree2, { aggregation: 'sum' })).toBe(10);
+    expect(resolve(flat[1], flat, tree2, { aggregation: 'sum' })).toBe(1);
+  });
+
+  test('missing value without aggregation', () => {
+    const flat = toNodes(labels);
+    expect(resolve(flat[0], flat, tree)).toBeUndefined();
+  });
+
+  test('missing value with aggregation', () => {
+    const flat = toNodes(labels);
+    const [a, aa, ab] = flat;
+    expect(resolve(a, flat, tree, { aggregation: 'sum' })).toBe(6);
+    expect(resolve(a, flat, tree, { aggregation: 'count' })).toBe(3);
+    expect(resolve(a, flat, tree, { aggregation: 'max' })).toBe(3);
+    expect(resolve(ab, flat, tree, { aggregation: 'mean' })).toBe(2.5);
+    expect(resolve(aa, flat, tree, { aggregation: 'sum' })).toBe(1);
+  });
+
+  test('mixed explicit and aggregated values', () => {
+    const flat = toNodes(labels);
+    const [a, , ab] = flat;
+    // ab has an explicit value which differs from the sum of its children
+    const mixed = [{ children: [1, { value: 10, children: [2, 3] }] }, 6];
+    expect(resolve(a, flat, mixed, { aggregation: 'sum' })).toBe(11);
+    expect(resolve(a, flat, mixed, { aggregation: 'count' })).toBe(2);
+    expect(resolve(a, flat, mixed, { aggregation: 'mean' })).toBe(5.5);
+    expect(resolve(ab, flat, mixed, { aggregation: 'sum' })).toBe(10);
+  });
+});
+
+describe('resolve by key', () => {
+  const labels = [{ label: 'a', children: ['aa', 'ab'] }, 'b', 'c'];
+  // different order and sparse
+  const tree = [
+    { key: 'b', value: 2 },
+    { key: 'a', value: 1, children: [{ key: 'ab', value: 4 }] },
+  ];
+
+  test('matches by key', () => {
+    const flat = toNodes(labels);
+    const [a, , ab, b] = flat;
+    expect(resolve(a, flat, tree, { dataBinding: 'key' })).toBe(1);
+    expect(resolve(ab, flat, tree, { dataBinding: 'key' })).toBe(4);
+    expect(resolve(b, flat, tree, { dataBinding: 'key' })).toBe(2);
+  });
+
+  test('missing branches', () => {
+    const flat = toNodes(labels);
+    const [, aa, , , c] = flat;
+    expect(resolve(aa, flat, tree, { dataBinding: 'key' })).toBeNull();
+    expect(resolve(c, flat, tree, { dataBinding: 'key', missingValue: 0 })).toBe(0);
+  });
+
+  test('matches by id', () => {
+    const flat = toNodes([{ label: 'a', id: 'x' }, 'b']);
+    expect(resolve(flat[0], flat, [{ key: 'x', value: 3 }], { dataBinding: 'key' })).toBe(3);
+  });
+
+  test('aggregation', () => {
+    const flat = toNodes(labels);
+    const sparse = [
+      {
+        key: 'a',
+        children: [
+          { key: 'ab', value: 4 },
+          { key: 'aa', value: 3 },
+        ],
+      },
+    ];
+    expect(resolve(flat[0], flat, sparse, { dataBinding: 'key', aggregation: 'sum' })).toBe(7);
+  });
+});
+
+describe('fromRecords', () => {
+  const records = [
+    { region: 'EMEA', country: 'DE', city: 'Berlin', revenue: 1, cost: 2 },
+    { region: 'EMEA', country: 'DE', city: 'Munich', revenue: 2, cost: 1 },
+    { region: 'EMEA', country: 'FR', city: 'Paris', revenue: 3, cost: 1 },
+    { region: 'APAC', country: 'JP', city: 'Tokyo', revenue: 4, cost: 3 },
+    { region: 'EMEA', country: 'DE', city: 'Berlin', revenue: 5, cost: 1 },
+  ];
+
+  test('labels', () => {
+    const { labels } = fromRecords(records, ['region', 'country', 'city'], 'revenue');
+    expect(labels).toEqual([
+      {
+        label: 'EMEA',
+        children: [
+          { label: 'DE', children: ['Berlin', 'Munich'] },
+          { label: 'FR', children: ['Paris'] },
+        ],
+      },
+      { label: 'APAC', children: [{ label: 'JP', children: ['Tokyo'] }] },
+    ]);
+  });
+
+  test('values', () => {
+    const { datasets } = fromRecords(
+      records,
+      ['region', 'country', 'city'],
+      ['revenue', { label: 'Margin', value: (r) => r.revenue - r.cost }, (r) => r.cost]
+    );
+    expect(datasets.map((d) => d.label)).toEqual(['revenue', 'Margin', 'Dataset 3']);
+    expect(datasets[0].tree).toEqual([
+      { children: [{ children: [6, 2] }, { children: [3] }] },
+      { children: [{ children: [4] }] },
+    ]);
+    expect(datasets[1].tree[1]).toEqual({ children: [{ children: [1] }] });
+  });
+
+  test('aggregate', () => {
+    const { datasets } = fromRecords(records, ['region', 'country'], 'revenue', { aggregate: 'max' });
+    expect(datasets[0].tree).toEqual([
+      { value: 5, children: [5, 3] },
+      { value: 4, children: [4] },
+    ]);
+  });
+
+  test('consistent with toNodes', () => {
+    const { labels, datasets } = fromRecords(records, ['region', 'country', 'city'], 'revenue');
+    const flat = toNodes(labels);
+    const berlin = flat.find((d) => d.label === 'Berlin')!;
+    const tokyo = flat.find((d) => d.label === 'Tokyo')!;
+    expect(resolve(berlin, flat, datasets[0].tree)).toBe(6);
+    expect(resolve(tokyo, flat, datasets[0].tree)).toBe(4);
+    expect(resolve(flat[0], flat, datasets[0].tree, { aggregation: 'sum' })).toBe(11);
+  });
+});
+
+describe('sortNodes', () => {
+  const labels = [
+    { label: 'b', children: ['bb', 'ba', 'bc'] },
+    { label: 'a', children: ['ab', { label: 'aa', children: ['aab', 'aaa'] }] },
+    'c',
+  ];
+  const tree = [{ value: 5, children: [2, 1, 3] }, { value: 6, children: [4, { value: 7, children: [8, 9] }] }, 1];
+  const value = (flat: ILabelNodes) => (node: ILabelNode) => resolve(node, flat, tree);
+  const labelsOf = (flat: ILabelNodes) => flat.map((d) => d.label).join(',');
+
+  test('by label', () => {
+    const flat = toNodes(labels);
+    const sorted = sortNodes(flat, 'label', value(flat));
+    expect(labelsOf(sorted)).toBe('a,aa,aaa,aab,ab,b,ba,bb,bc,c');
+    expect(sorted.map((d) => d.index)).toEqual(sorted.map((_, i) => i));
+    expect(sorted[1].parent).toBe(0);
+    expect(sorted[1].relIndex).toBe(0);
+  });
+
+  test('keeps the values', () => {
+    const flat = toNodes(labels);
+    const sorted = sortNodes(flat, 'label', value(flat));
+    expect(sorted.map((d) => resolve(d, sorted, tree))).toEqual([6, 7, 9, 8, 4, 5, 1, 2, 3, 1]);
+  });
+
+  test('by value desc', () => {
+    const flat = toNodes(labels);
+    const sorted = sortNodes(flat, { by: 'value', order: 'desc' }, value(flat));
+    expect(labelsOf(sorted)).toBe('a,aa,aaa,aab,ab,b,bc,bb,ba,c');
+  });
+
+  test('per level', () => {
+    const flat = toNodes(labels);
+    const sorted = sortNodes(flat, [null, 'value'], value(flat));
+    expect(labelsOf(sorted)).toBe('b,ba,bb,bc,a,ab,aa,aab,aaa,c');
+  });
+
+  test('custom', () => {
+    const flat = toNodes(labels);
+    const sorted = sortNodes(flat, (a, b) => b.children.length - a.children.length, value(flat));
+    expect(sorted.filter((d) => d.parent === -1).map((d) => d.label)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('groupOthers', () => {
+  const labels = [
+    { label: 'b', children: ['bb', 'ba', 'bc'] },
+    { label: 'a', children: ['ab', { label: 'aa', children: ['aab', 'aaa'] }] },
+    'c',
+  ];
+  const tree = [{ value: 5, children: [2, 1, 3] }, { value: 6, children: [4, { value: 7, children: [8, 9] }] }, 1];
+  const labelsOf = (flat: ILabelNodes) => flat.map((d) => d.label).join(',');
+  const group = (flat: ILabelNodes, previous?: ILabelNodes) =>
+    groupOthers(flat, { count: 2 }, (node) => resolve(node, flat, tree), previous);
+
+  test('keeps the largest children', () => {
+    const grouped = group(toNodes(labels));
+    expect(labelsOf(grouped)).toBe('b,bb,bc,Other (1),ba,a,ab,aa,aab,aaa,Other (1),c');
+    const other = grouped[3];
+    expect(other.synthetic).toBe(true);
+    expect(other.path).toEqual(['b', 'Other']);
+    expect(other.level).toBe(1);
+    expect(grouped[4].level).toBe(2);
+    expect(grouped[4].parent).toBe(3);
+    expect(grouped[4].hidden).toBe(true);
+    expect(grouped[10].major).toBe(true);
+  });
+
+  test('resolves the values', () => {
+    const grouped = group(toNodes(labels));
+    expect(grouped.map((d) => resolve(d, grouped, tree))).toEqual([5, 2, 3, 1, 1, 6, 4, 7, 8, 9, 1, 1]);
+    expect(resolve(grouped[3], grouped, tree, { aggregation: 'max' })).toBe(1);
+  });
+
+  test('lookup by path', () => {
+    const grouped = group(toNodes(labels));
+    expect(findNodeByPath(grouped, ['b', 'ba'])).toBe(grouped[4]);
+    expect(findNodeByPath(grouped, ['c'])).toBe(grouped[11]);
+    expect(findNodeByPath(grouped, ['b', 'Other'])).toBe(grouped[3]);
+    expect(findNodeByPath(grouped, ['Other'])).toBe(grouped[10]);
+  });
+
+  test('view state', () => {
+    const grouped = group(toNodes(labels));
+    grouped[3].expand = true;
+    grouped[0].expand = true;
+    const state = toViewState(grouped);
+    expect(state).toEqual({ expanded: [['b'], ['b', 'Other']] });
+    const restored = applyViewState(group(toNodes(labels)), state);
+    expect(restored[3].expand).toBe(true);
+    expect(restored.filter((d) => !d.hidden).map((d) => d.label)).toEqual(['bb', 'bc', 'ba', 'a', 'Other (1)']);
+  });
+
+  test('preserves the expand state', () => {
+    const grouped = group(toNodes(labels));
+    grouped[3].expand = true;
+    const next = group(ungroupOthers(grouped), grouped);
+    expect(next[3].expand).toBe(true);
+    expect(next[10].expand).toBe(false);
+  });
+
+  test('ungroup', () => {
+    const flat = ungroupOthers(group(toNodes(labels)));
+    expect(labelsOf(flat)).toBe('b,bb,ba,bc,a,ab,aa,aab,aaa,c');
+    expect(flat[2].level).toBe(1);
+    expect(flat[2].parent).toBe(0);
+  });
+});
+
+describe('applyFilter', () => {
+  const labels = [
+    { label: 'A', children: ['a1', { label: 'a2', children: ['x21', 'a22'] }, 'a3'] },
+    'B',
+    { label: 'C', expand: 'focus' as const, children: ['c1', 'x2'] },
+  ];
+  const labelsOf = (flat: ILabelNodes) => flat.map((d) => d.label).join(',');
+
+  test('text query', () => {
+    const r = applyFilter(toNodes(labels), toFilterPredicate('X'));
+    expect(labelsOf(r.flat)).toBe('A,a2,x21,C,x2');
+    expect(labelsOf(determineVisible(r.flat))).toBe('x21,x2');
+    expect(r.flat[1].relIndex).toBe(0);
+    expect(r.flat[1].dataIndex).toBe(1);
+  });
+
+  test('keeps the sub tree of matches', () => {
+    const r = applyFilter(toNodes(labels), (d) => d.label === 'a2');
+    expect(labelsOf(r.flat)).toBe('A,a2,x21,a22');
+    expect(labelsOf(determineVisible(r.flat))).toBe('a2');
+  });
+
+  test('no matches', () => {
+    const r = applyFilter(toNodes(labels), toFilterPredicate('y'));
+    expect(r.flat).toHaveLength(0);
+  });
+
+  test('revert', () => {
+    const r = applyFilter(toNodes(labels), toFilterPredicate('x'));
+    const flat = revertFilter(r.state);
+    expect(labelsOf(flat)).toBe('A,a1,a2,x21,a22,a3,B,C,c1,x2');
+    expect(flat.map((d) => d.expand)).toEqual([false, false, false, false, false, false, false, 'focus', false, false]);
+    expect(labelsOf(determineVisible(flat))).toBe('c1,x2');
+  });
+});
+
+describe('view state', () => {
+  const labels = [
+    { label: 'A', expand: true, children: ['a1', { label: 'a2', expand: 'focus' as const, children: ['a21', 'a22'] }] },
+    { label: 'B', expand: true, children: ['b1'] },
+    'C',
+  ];
+
+  test('toViewState', () => {
+    expect(toViewState(toNodes(labels))).toEqual({
+      expanded: [['A'], ['B']],
+      focus: ['A', 'a2'],
+    });
+    expect(toViewState(toNodes(['A', 'B']))).toEqual({ expanded: [] });
+  });
+
+  test('applyViewState', () => {
+    const flat = applyViewState(toNodes(labels), { expanded: [['B'], ['X', 'y'], ['C']] });
+    expect(flat.map((d) => d.expand)).toEqual([false, false, false, false, false, true, false, false]);
+    expect(determineVisible(flat).map((d) => d.label)).toEqual(['A', 'b1', 'C']);
+  });
+
+  test('round trip', () => {
+    const state = JSON.parse(JSON.stringify(toViewState(toNodes(labels))));
+    const flat = applyViewState(
+      toNodes(labels.map((d) => (typeof d === 'string' ? d : { ...d, expand: false }))),
+      state
+    );
+    expect(determineVisible(flat).map((d) => d.label)).toEqual(['a21', 'a22']);
+    expect(toViewState(flat)).toEqual(state);
+  });
+});
+
+describe('navigate', () => {
+  const flat = toNodes([
+    { label: 'A', expand: true, children: ['a1', { label: 'a2', expand: true, children: ['a21', 'a22'] }] },
+    { label: 'B', expand: true, children: ['b1'] },
+    'C',
+  ]);
+  const labels = determineVisible(flat);
+  const byLabel = (label: string) => flat.find((d) => d.label === label)!;
+  const move = (label: string, m: Parameters<typeof navigate>[3]) => navigate(byLabel(label), flat, labels, m).label;
+
+  test('along the labels', () => {
+    expect(move('a1', 'next')).toBe('a21');
+    expect(move('a22', 'next')).toBe('b1');
+    expect(move('C', 'next')).toBe('C');
+    expect(move('a1', 'previous')).toBe('a1');
+    expect(move('a1', 'last')).toBe('C');
+    expect(move('C', 'first')).toBe('a1');
+  });
+
+  test('along a level', () => {
+    expect(move('A', 'next')).toBe('B');
+    expect(move('B', 'next')).toBe('C');
+    expect(move('B', 'previous')).toBe('A');
+    expect(move('a2', 'next')).toBe('b1');
+    expect(move('a2', 'previous')).toBe('a1');
+  });
+
+  test('between levels', () => {
+    expect(move('a21', 'parent')).toBe('a2');
+    expect(move('a2', 'parent')).toBe('A');
+    expect(move('A', 'parent')).toBe('A');
+    expect(move('A', 'child')).toBe('a1');
+    expect(move('B', 'child')).toBe('b1');
+    expect(move('C', 'child')).toBe('C');
+  });
+});
+
+describe('label layout', () => {
+  const measure = (text: string) => text.length * 10;
+
+  test('ellipsize', () => {
+    expect(ellipsize('Germany', 70, measure)).toBe('Germany');
+    expect(ellipsize('Germany', 50, measure)).toBe('Germ…');
+    expect(ellipsize('New York', 50, measure)).toBe('New…');
+    expect(ellipsize('Germany', 15, measure)).toBe('');
+  });
+
+  test('wrapText', () => {
+    expect(wrapText('United Kingdom', 140, measure, 2)).toEqual(['United Kingdom']);
+    expect(wrapText('United Kingdom', 80, measure, 2)).toEqual(['United', 'Kingdom']);
+    expect(wrapText('Bosnia and Herzegovina', 100, measure, 2)).toEqual(['Bosnia and', 'Herzegovi…']);
+    expect(wrapText('Bosnia and Herzegovina', 60, measure)).toEqual(['Bosni…']);
+  });
+});
@@ -1,15 +1,35 @@
 /* eslint-disable no-param-reassign */
-import { ILabelNode, ILabelNodes, IValueNode, isValueNode, IRawLabelNode } from './model';
+import {
+  ILabelNode,
+  ILabelNodes,
+  IValueNode,
+  isValueNode,
+  IRawLabelNode,
+  IAggregation,
+  IAggregateFunction,
+  IRecordAccessor,
+  IRecordValue,
+  IRecordsData,
+  IDataBinding,
+  ISortOption,
+  ITopNSpec,
+  IFilterPredicate,
+  IViewState,
+} from './model';
 
 /**
  * builds up recursively the label tree
  * @returns the node itself
  */
-export function asNode(label: string | IRawLabelNode, parent?: ILabelNode): ILabelNode {
+export function asNode(label: string | IRawLabelNode, parent?: ILabelNode, dataIndex = 0): ILabelNode {
+  const text = typeof label === 'string' ? label : label.label;
   const node: ILabelNode = {
     index: 0,
     relIndex: 0,
+    dataIndex,
+    endIndex: 0,
     label: '',
+    path: parent ? [...parent.path, text] : [text],
     children: [],
     expand: false,
     parent: parent ? parent.index : -1,
@@ -27,8 +47,18 @@ export function asNode(label: string | IRawLabelNode, parent?: ILabelNode): ILab
   } else {
     Object.assign(node, {
       ...label,
-      children: (label.children ?? []).map((d) => asNode(d, node)),
+      // in case of an already converted node
+      path: node.path,
+      dataIndex,
+      children: (label.children ?? []).map((d, i) => asNode(d, node, i)),
     });
+    if (node.lazy && node.children.length > 0) {
+      // already loaded
+      node.lazy = false;
+    } else if (node.lazy) {
+      // cannot be expanded before the children are loaded
+      node.expand = false;
+    }
   }
   return node;
 }
@@ -40,24 +70,534 @@ function push(node: ILabelNode, i: number, flat: ILabelNode[], parent?: ILabelNo
   node.relIndex = i;
   node.index = flat.length; // absolute index
   node.parent = parent ? parent.index : -1;
+  // nodes might have been moved within the tree
+  node.level = parent ? parent.level + 1 : 0;
+  node.major = !parent;
   // node is hidden if parent is visible or not expanded
   node.hidden = Boolean(parent ? parent.expand === false || node.expand : node.expand);
 
   flat.push(node);
 
   node.children.forEach((d, j) => push(d, j, flat, node));
+  node.endIndex = flat.length;
+}
+
+/**
+ * pushes the given roots and their children into a new flat array
+ */
+function pushAll(roots: ILabelNode[]): ILabelNodes {
+  const flat: ILabelNode[] = [];
+  roots.forEach((d, i) => push(d, i, flat));
+  return flat;
+}
+
+/**
+ * updates the index and visibility information of the nodes after their expand state has been changed
+ * @returns the new flat array of nodes
+ */
+export function refreshNodes(flat: ILabelNodes): ILabelNodes {
+  return pushAll(flat.filter((d) => d.parent === -1));
+}
+
+/**
+ * expand state declared by the raw label of a node, to tell a changed declaration apart from a state set by the user
+ */
+const declaredExpand = new WeakMap<ILabelNode, IRawLabelNode['expand']>();
+
+/**
+ * matches the new nodes with the nodes (by id or path) of a previous version of the tree. The expand state of a
+ * matched node is carried over unless its label declares a different expand state than before. Matched nodes are
+ * updated in place to keep references to them valid
+ * @returns the new roots
+ */
+function reconcile(roots: ILabelNode[], labels: readonly (IRawLabelNode | string)[], previous: ILabelNodes) {
+  const byId = new Map<string, ILabelNode>();
+  const byPath = new Map<string, ILabelNode>();
+  previous.forEach((d) => {
+    if (d.synthetic) {
+      return;
+    }
+    if (d.id != null) {
+      byId.set(d.id, d);
+    }
+    byPath.set(JSON.stringify(d.path), d);
+  });
+  const used = new Set<ILabelNode>();
+
+  const visit = (node: ILabelNode, label: IRawLabelNode | string | undefined): ILabelNode => {
+    const raw = label == null || typeof label === 'string' ? undefined : label;
+    const old = (node.id != null ? byId.get(node.id) : undefined) ?? byPath.get(JSON.stringify(node.path));
+    const declared = raw?.expand;
+    if (
+      old &&
+      old.children.length > 0 &&
+      node.children.length > 0 &&
+      (declared == null || declared === declaredExpand.get(old))
+    ) {
+      node.expand = old.expand;
+    }
+    // also within collapsed nodes to restore the state once they are expanded again
+    node.children = node.children.map((child, i) => visit(child, raw?.children?.[i]));
+    if (!old || used.has(old)) {
+      declaredExpand.set(node, declared);
+      return node;
+    }
+    used.add(old);
+    const target = old as unknown as Record<string, unknown>;
+    Object.keys(target)
+      .filter((key) => !(key in node))
+      .forEach((key) => {
+        delete target[key];
+      });
+    Object.assign(old, node);
+    declaredExpand.set(old, declared);
+    return old;
+  };
+  return roots.map((root, i) => visit(root, labels[i]));
 }
 
 /**
  * converts the given labels to a flat array of linked nodes
+ * @param previous previous version of the nodes whose expand state should be preserved
  */
-export function toNodes(labels: readonly (IRawLabelNode | string)[]): ILabelNodes {
-  const nodes = labels.map((d) => asNode(d));
+export function toNodes(labels: readonly (IRawLabelNode | string)[], previous?: ILabelNodes): ILabelNodes {
+  const nodes = reconcile(
+    labels.map((d, i) => asNode(d, undefined, i)),
+    labels,
+    previous ?? []
+  );
+  return pushAll(nodes);
+}
 
-  const flat: ILabelNode[] = [];
-  nodes.forEach((d, i) => push(d, i, flat));
+/**
+ * adds the given children to a node without children, e.g. a loaded lazy node
+ * @returns the new flat array of nodes
+ */
+export function insertChildren(
+  flat: ILabelNodes,
+  node: ILabelNode,
+  children: readonly (IRawLabelNode | string)[]
+): ILabelNodes {
+  node.children = children.map((d, i) => asNode(d, node, i));
+  node.lazy = false;
 
-  return flat;
+  return pushAll(flat.filter((d) => d.parent === -1));
+}
+
+/**
+ * sets the children of the value node belonging to the given label node, missing value nodes are created
+ */
+export function insertValueChildren(
+  dataTree: (IValueNode | number)[],
+  node: ILabelNode,
+  flat: ILabelNodes,
+  children: ReadonlyArray<IValueNode | number>,
+  dataBinding: IDataBinding = 'index'
+): void {
+  let siblings = dataTree;
+  dataParentsOf(node, flat).forEach((p, i, parents) => {
+    const key = keyOf(p);
+    let index = dataBinding === 'key' ? siblings.findIndex((d) => isValueNode(d) && d.key === key) : p.dataIndex;
+    if (index < 0) {
+      index = siblings.length;
+    }
+    let item = siblings[index];
+    if (!isValueNode(item)) {
+      // convert to a value node
+      item = { children: [] };
+      if (typeof siblings[index] === 'number') {
+        item.value = siblings[index] as number;
+      }
+      if (dataBinding === 'key') {
+        item.key = key;
+      }
+      siblings[index] = item;
+    }
+    if (i === parents.length - 1) {
+      item.children = children.slice();
+    } else {
+      if (!item.children) {
+        item.children = [];
+      }
+      siblings = item.children as (IValueNode | number)[];
+    }
+  });
+}
+
+function toComparator(
+  sort: ISortOption,
+  value: (node: ILabelNode, dataset?: number) => number | null
+): (a: ILabelNode, b: ILabelNode) => number {
+  if (typeof sort === 'function') {
+    return (a, b) => sort(a, b, value);
+  }
+  const spec = typeof sort === 'string' ? { by: sort } : sort;
+  const factor = spec.order === 'desc' ? -1 : 1;
+  if (spec.by === 'label') {
+    return (a, b) => factor * a.label.localeCompare(b.label);
+  }
+  const dataset = spec.dataset ?? 0;
+  const valid = (v: number | null) => v != null && !Number.isNaN(v);
+  return (a, b) => {
+    const va = value(a, dataset);
+    const vb = value(b, dataset);
+    if (!valid(va) || !valid(vb)) {
+      // missing values last
+      return Number(!valid(va)) - Number(!valid(vb));
+    }
+    return factor * ((va as number) - (vb as number));
+  };
+}
+
+/**
+ * sorts the children of each node, the parent groups stay intact
+ * @param sort sort option for all levels or one per level
+ * @param value resolves the value of a node in the given dataset
+ * @returns the new flat array of nodes
+ */
+export function sortNodes(
+  flat: ILabelNodes,
+  sort: ISortOption | readonly (ISortOption | null | undefined)[],
+  value: (node: ILabelNode, dataset: number) => number | null
+): ILabelNodes {
+  // cache since the resolving is expensive
+  const cache = new Map<string, number | null>();
+  const cachedValue = (node: ILabelNode, dataset = 0) => {
+    const key = `${node.index}:${dataset}`;
+    if (!cache.has(key)) {
+      cache.set(key, value(node, dataset));
+    }
+    return cache.get(key) as number | null;
+  };
+  const comparators = (Array.isArray(sort) ? sort : [sort]).map((d: ISortOption | null | undefined) =>
+    d ? toComparator(d, cachedValue) : null
+  );
+  const comparatorOf = (level: number) => (Array.isArray(sort) ? comparators[level] : comparators[0]);
+
+  const sortChildren = (children: ILabelNode[], level: number) => {
+    const comparator = comparatorOf(level);
+    if (comparator) {
+      children.sort(comparator);
+    }
+    children.forEach((child) => sortChildren(child.children, level + 1));
+  };
+
+  const roots = flat.filter((d) => d.parent === -1);
+  sortChildren(roots, 0);
+
+  // the indices are updated after sorting since they are used for resolving values
+  return pushAll(roots);
+}
+
+/**
+ * reverts groupOthers by moving the children of synthetic nodes back to their parents in their original order
+ * @returns the new flat array of nodes
+ */
+export function ungroupOthers(flat: ILabelNodes): ILabelNodes {
+  if (!flat.some((d) => d.synthetic)) {
+    return flat;
+  }
+  const unwrap = (children: ILabelNode[]): ILabelNode[] => {
+    if (!children.some((d) => d.synthetic)) {
+      return children;
+    }
+    return children.flatMap((d) => (d.synthetic ? d.children : [d])).sort((a, b) => a.dataIndex - b.dataIndex);
+  };
+  const visit = (node: ILabelNode) => {
+    node.children = unwrap(node.children);
+    node.children.forEach(visit);
+  };
+  const roots = unwrap(flat.filter((d) => d.parent === -1));
+  roots.forEach(visit);
+  return pushAll(roots);
+}
+
+/**
+ * keeps the largest children of each node and moves the remaining ones into a synthetic 'Other (k)' node
+ * @param value resolves the value of a node used to determine the largest ones
+ * @param previous previous version of the nodes to preserve the expand state of the synthetic nodes
+ * @returns the new flat array of nodes
+ */
+export function groupOthers(
+  flat: ILabelNodes,
+  topN: ITopNSpec,
+  value: (node: ILabelNode) => number | null,
+  previous?: ILabelNodes
+): ILabelNodes {
+  const { count, label = 'Other' } = topN;
+  const previousExpand = new Map<string, boolean | 'focus'>();
+  (previous ?? []).forEach((d) => {
+    if (d.synthetic) {
+      previousExpand.set(JSON.stringify(d.path), d.expand);
+    }
+  });
+  const valid = (v: number | null) => v != null && !Number.isNaN(v);
+
+  const group = (children: ILabelNode[], parent?: ILabelNode): ILabelNode[] => {
+    children.forEach((child) => {
+      child.children = group(child.children, child);
+    });
+    if (children.length <= count) {
+      return children;
+    }
+    const values = new Map(children.map((d) => [d, value(d)]));
+    const keep = new Set(
+      children
+        .slice()
+        .sort((a, b) => {
+          const va = values.get(a) as number | null;
+          const vb = values.get(b) as number | null;
+          if (!valid(va) || !valid(vb)) {
+            // missing values last
+            return Number(!valid(va)) - Number(!valid(vb));
+          }
+          return (vb as number) - (va as number);
+        })
+        .slice(0, count)
+    );
+    const rest = children.filter((d) => !keep.has(d));
+    const other = asNode({ label: `${label} (${rest.length})` }, parent, Number.NaN);
+    other.synthetic = true;
+    // stable path without the count
+    other.path = parent ? [...parent.path, label] : [label];
+    other.children = rest;
+    // keep a focused node within the group reachable
+    const focused = rest.some((d) => flat.slice(d.index, d.endIndex).some((c) => c.expand === 'focus'));
+    other.expand = focused || (previousExpand.get(JSON.stringify(other.path)) ?? false);
+    return [...children.filter((d) => keep.has(d)), other];
+  };
+
+  return pushAll(group(flat.filter((d) => d.parent === -1)));
+}
+
+/**
+ * extracts the expand and focus state of the nodes
+ */
+export function toViewState(flat: ILabelNodes): IViewState {
+  const nodes = flat.filter((d) => d.expand);
+  const focus = nodes.find((d) => d.expand === 'focus');
+  const state: IViewState = { expanded: nodes.filter((d) => d.expand === true).map((d) => d.path) };
+  if (focus) {
+    state.focus = focus.path;
+  }
+  return state;
+}
+
+/**
+ * applies the expand and focus state to the nodes, paths which don't exist anymore are ignored
+ * @returns the new flat array of nodes
+ */
+export function applyViewState(flat: ILabelNodes, state: IViewState): ILabelNodes {
+  flat.forEach((d) => {
+    d.expand = false;
+  });
+  const expand = (path: readonly string[], value: true | 'focus') => {
+    const node = findNodeByPath(flat, path);
+    if (node && node.children.length > 0) {
+      node.expand = value;
+    }
+  };
+  state.expanded.forEach((path) => expand(path, true));
+  if (state.focus) {
+    expand(state.focus, 'focus');
+  }
+  return refreshNodes(flat);
+}
+
+/**
+ * the removed children and the expand state before filtering to revert a filter
+ */
+export interface IFilterState {
+  roots: ILabelNode[];
+  children: Map<ILabelNode, ILabelNode[]>;
+  expand: Map<ILabelNode, boolean | 'focus'>;
+}
+
+/**
+ * creates a predicate matching the labels containing the given text, case insensitive
+ */
+export function toFilterPredicate(query: string | IFilterPredicate): IFilterPredicate {
+  if (typeof query === 'function') {
+    return query;
+  }
+  const text = query.toLowerCase();
+  return (node) => node.label.toLowerCase().includes(text);
+}
+
+/**
+ * removes the nodes which neither match nor have a matching parent or descendant and expands the parents of matches
+ * @returns the new flat array of nodes and the state to revert the filter
+ */
+export function applyFilter(
+  flat: ILabelNodes,
+  predicate: IFilterPredicate
+): { flat: ILabelNodes; state: IFilterState } {
+  const state: IFilterState = {
+    roots: flat.filter((d) => d.parent === -1),
+    children: new Map(),
+    expand: new Map(),
+  };
+  flat.forEach((d) => {
+    state.expand.set(d, d.expand);
+    // the focused node might not contain any match
+    if (d.expand === 'focus') {
+      d.expand = true;
+    }
+  });
+
+  const keep = (node: ILabelNode): boolean => {
+    if (!node.synthetic && predicate(node)) {
+      // keep the whole sub tree of a match
+      return true;
+    }
+    const children = node.children.filter(keep);
+    if (children.length === 0) {
+      return false;
+    }
+    if (children.length < node.children.length) {
+      state.children.set(node, node.children);
+      node.children = children;
+    }
+    node.expand = true;
+    return true;
+  };
+
+  return { flat: pushAll(state.roots.filter(keep)), state };
+}
+
+/**
+ * restores the removed nodes and the expand state of the nodes before filtering
+ * @returns the new flat array of nodes
+ */
+export function revertFilter(state: IFilterState): ILabelNodes {
+  state.children.forEach((children, node) => {
+    node.children = children;
+  });
+  state.expand.forEach((expand, node) => {
+    node.expand = expand;
+  });
+  return pushAll(state.roots);
+}
+
+interface IRecordsGroup<T> {
+  label: string;
+  records: T[];
+  children: Map<string, IRecordsGroup<T>>;
+}
+
+function access<T, R>(record: T, accessor: IRecordAccessor<T, R>): R {
+  return typeof accessor === 'function' ? accessor(record) : (record[accessor] as unknown as R);
+}
+
+/**
+ * builds the label tree and the value trees of the datasets out of a list of flat records
+ * @param records flat records, e.g. rows of a table
+ * @param groupBy ordered list of attributes defining the levels of the hierarchy, the last one defines the leaves
+ * @param values one or more accessors for the value of each dataset, multiple records of the same leaf are aggregated
+ * @param options.aggregate when given, the value of group nodes is aggregated from their records and leaves are reduced with it instead of summed up
+ */
+export function fromRecords<T>(
+  records: readonly T[],
+  groupBy: readonly IRecordAccessor<T, unknown>[],
+  values: IRecordValue<T> | readonly IRecordValue<T>[],
+  options: { aggregate?: IAggregation | null } = {}
+): IRecordsData {
+  const roots = new Map<string, IRecordsGroup<T>>();
+  records.forEach((record) => {
+    let level = roots;
+    groupBy.forEach((key) => {
+      const label = String(access(record, key));
+      let group = level.get(label);
+      if (!group) {
+        group = { label, records: [], children: new Map() };
+        level.set(label, group);
+      }
+      group.records.push(record);
+      level = group.children;
+    });
+  });
+
+  const toLabel = (group: IRecordsGroup<T>): IRawLabelNode | string => {
+    if (group.children.size === 0) {
+      return group.label;
+    }
+    return {
+      label: group.label,
+      children: Array.from(group.children.values(), toLabel),
+    };
+  };
+
+  const valueAccessors = (Array.isArray(values) ? values : [values]) as readonly IRecordValue<T>[];
+  const datasets = valueAccessors.map((v, i) => {
+    let label = `Dataset ${i + 1}`;
+    if (typeof v === 'object') {
+      label = v.label;
+    } else if (typeof v !== 'function') {
+      label = String(v);
+    }
+    const value = typeof v === 'object' ? v.value : v;
+    const valuesOf = (group: IRecordsGroup<T>) =>
+      group.records.map((r) => Number(access(r, value))).filter((d) => !Number.isNaN(d));
+
+    const toValue = (group: IRecordsGroup<T>): IValueNode | number => {
+      if (group.children.size === 0) {
+        return aggregate(valuesOf(group), options.aggregate ?? 'sum');
+      }
+      const node: IValueNode = {
+        children: Array.from(group.children.values(), toValue),
+      };
+      if (options.aggregate) {
+        node.value = aggregate(valuesOf(group), options.aggregate);
+      }
+      return node;
+    };
+    return { label, tree: Array.from(roots.values(), toValue) };
+  });
+
+  return {
+    labels: Array.from(roots.values(), toLabel),
+    datasets,
+  };
+}
+
+/**
+ * finds the node with the given id
+ */
+export function findNodeById(flat: ILabelNodes, id: string): ILabelNode | undefined {
+  return flat.find((d) => d.id === id);
+}
+
+/**
+ * finds the node with the given path of labels, e.g. ['EMEA', 'DE', 'Berlin']. A synthetic 'Other' node is found by
+ * its path without the count, e.g. ['EMEA', 'Other']
+ */
+export function findNodeByPath(flat: ILabelNodes, path: readonly string[]): ILabelNode | undefined {
+  if (path.length === 0) {
+    return undefined;
+  }
+  // look through synthetic nodes since they are not part of the path of their children
+  const find = (nodes: ILabelNodes, label: string): ILabelNode | undefined =>
+    nodes.find((d) => !d.synthetic && d.label === label) ??
+    nodes
+      .filter((d) => d.synthetic)
+      .reduce<ILabelNode | undefined>((acc, d) => acc ?? find(d.children, label), undefined) ??
+    nodes.find((d) => d.synthetic && d.path[d.path.length - 1] === label);
+
+  let node = find(
+    flat.filter((d) => d.parent === -1),
+    path[0]
+  );
+  for (let i = 1; i < path.length && node; i += 1) {
+    node = find(node.children, path[i]);
+  }
+  return node;
+}
+
+/**
+ * returns the path of labels from the root to the given node
+ */
+export function pathOf(node: ILabelNode): string[] {
+  return node.path.slice();
 }
 
 /**
@@ -73,6 +613,134 @@ export function parentsOf(node: ILabelNode, flat: ILabelNodes): ILabelNodes {
   return parents;
 }
 
+/**
+ * whether the given node is part of the sub tree of the given root (including the root itself)
+ */
+export function isInSubTree(node: ILabelNode, root: ILabelNode): boolean {
+  return node.index >= root.index && node.index < root.endIndex;
+}
+
+export declare type INavigation = 'next' | 'previous' | 'parent' | 'child' | 'first' | 'last';
+
+/**
+ * moves from the given node to a neighbor in the tree of the visible labels and their parents, e.g. for keyboard navigation
+ * @returns the neighbor or the node itself if there is none
+ */
+export function navigate(node: ILabelNode, flat: ILabelNodes, labels: ILabelNodes, move: INavigation): ILabelNode {
+  switch (move) {
+    case 'first':
+      return labels[0] ?? node;
+    case 'last':
+      return labels[labels.length - 1] ?? node;
+    case 'parent':
+      return node.parent >= 0 ? flat[node.parent] : node;
+    case 'child': {
+      let child = labels.find((d) => d !== node && isInSubTree(d, node));
+      while (child && flat[child.parent] !== node) {
+        child = flat[child.parent];
+      }
+      return child ?? node;
+    }
+    default:
+  }
+  const delta = move === 'next' ? 1 : -1;
+  const index = labels.indexOf(node);
+  if (index >= 0) {
+    return labels[index + delta] ?? node;
+  }
+  // neighbors on the same level
+  const level: ILabelNode[] = [];
+  labels.forEach((d) => {
+    const p = d.level >= node.level ? parentsOf(d, flat)[node.level] : null;
+    if (p && level[level.length - 1] !== p) {
+      level.push(p);
+    }
+  });
+  return level[level.indexOf(node) + delta] ?? node;
+}
+
+/**
+ * shortens the text such that it fits into the given width by appending an ellipsis
+ * @returns the text itself if it fits or an empty string if not even a single character does
+ */
+export function ellipsize(text: string, maxWidth: number, measure: (text: string) => number): string {
+  if (measure(text) <= maxWidth) {
+    return text;
+  }
+  const shorten = (length: number) => `${text.slice(0, length).trimEnd()}…`;
+  // binary search for the longest prefix that fits
+  let lo = 0;
+  let hi = text.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (measure(shorten(mid)) <= maxWidth) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo > 0 ? shorten(lo) : '';
+}
+
+/**
+ * breaks the text at white spaces into lines fitting into the given width, the remaining text is ellipsized in the
+ * last line
+ */
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number, maxLines = 1): string[] {
+  const lines: string[] = [];
+  text
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .forEach((word) => {
+      const line = lines.length > 0 ? `${lines[lines.length - 1]} ${word}` : '';
+      if (lines.length > 0 && (measure(line) <= maxWidth || lines.length >= maxLines)) {
+        lines[lines.length - 1] = line;
+      } else {
+        lines.push(word);
+      }
+    });
+  return lines.map((line) => ellipsize(line, maxWidth, measure)).filter((line) => line.length > 0);
+}
+
+/**
+ * computes the number of common parents (including themselves) of the given nodes, i.e. the level of the common parent + 1
+ */
+export function countCommonParents(a: ILabelNode, b: ILabelNode, flat: ILabelNodes): number {
+  let x = a;
+  let y = b;
+  while (x.level > y.level) {
+    x = flat[x.parent];
+  }
+  while (y.level > x.level) {
+    y = flat[y.parent];
+  }
+  while (x !== y) {
+    if (x.parent < 0) {
+      return 0;
+    }
+    x = flat[x.parent];
+    y = flat[y.parent];
+  }
+  return x.level + 1;
+}
+
+/**
+ * computes the left most grand child of expanded nodes
+ */
+function leftMost(node: ILabelNode): ILabelNode {
+  if (!node.expand || node.children.length === 0) {
+    return node;
+  }
+  return leftMost(node.children[0]);
+}
+
+/**
+ * computes the parents (including itself) of the given node which have a counterpart in the data trees
+ */
+export function dataParentsOf(node: ILabelNode, flat: ILabelNodes): ILabelNodes {
+  return parentsOf(node, flat).filter((d) => !d.synthetic);
+}
+
 /**
  * computes the right most grand child of expanded nodes
  */
@@ -91,12 +759,11 @@ export function lastOfLevel(node: ILabelNode, flat: ILabelNodes): ILabelNode {
     const parent = flat[node.parent];
     return rightMost(parent.children[parent.children.length - 1]);
   }
-  // top level search last top level sibling
-  const sibling =
-    flat
-      .slice()
-      .reverse()
-      .find((d) => d.parent === -1) ?? flat[0];
+  // top level search last top level sibling by jumping over the sub trees
+  let sibling = flat[0];
+  while (sibling.endIndex < flat.length) {
+    sibling = flat[sibling.endIndex];
+  }
   return rightMost(sibling);
 }
 
@@ -112,27 +779,119 @@ export function preOrderTraversal(node: ILabelNode, visit: (node: ILabelNode) =>
   }
 }
 
+const sum: IAggregateFunction = (values) => values.reduce((acc, v) => acc + v, 0);
+
+const aggregations: { [key: string]: IAggregateFunction } = {
+  sum,
+  mean: (values) => (values.length === 0 ? Number.NaN : sum(values) / values.length),
+  min: (values) => (values.length === 0 ? Number.NaN : values.reduce((acc, v) => Math.min(acc, v))),
+  max: (values) => (values.length === 0 ? Number.NaN : values.reduce((acc, v) => Math.max(acc, v))),
+  count: (values) => values.length,
+};
+
+/**
+ * reduces the given values using the given aggregation
+ */
+export function aggregate(values: number[], aggregation: IAggregation): number {
+  const f = typeof aggregation === 'function' ? aggregation : aggregations[aggregation];
+  return f ? f(values) : Number.NaN;
+}
+
+/**
+ * collects the values of all leaves of the given value (sub) tree, missing values are skipped.
+ * A descendant with an explicit value stands for its whole sub tree
+ */
+export function leafValues(node: IValueNode | number | undefined | null, acc: number[] = []): number[] {
+  if (isValueNode(node)) {
+    if (typeof node.value === 'number' && !Number.isNaN(node.value)) {
+      acc.push(node.value);
+    } else if (node.children) {
+      node.children.forEach((child) => leafValues(child, acc));
+    }
+  } else if (typeof node === 'number' && !Number.isNaN(node)) {
+    acc.push(node);
+  }
+  return acc;
+}
+
+/**
+ * the key of a label node used to match value nodes in the 'key' data binding mode
+ */
+export function keyOf(node: ILabelNode): string {
+  return node.id ?? node.label;
+}
+
+/**
+ * finds the child of the given value node which belongs to the given label node
+ */
+function childOf(dataItem: IValueNode, node: ILabelNode, dataBinding: IDataBinding): IValueNode | number | undefined {
+  const children = dataItem.children ?? [];
+  if (dataBinding === 'key') {
+    const key = keyOf(node);
+    return children.find((d) => isValueNode(d) && d.key === key);
+  }
+  return children[node.dataIndex];
+}
+
+export interface IResolveOptions {
+  /**
+   * used to compute the value of group nodes without an explicit value
+   */
+  aggregation?: IAggregation | null;
+  /**
+   * whether value nodes are matched by position or by key
+   * @default 'index'
+   */
+  dataBinding?: IDataBinding;
+  /**
+   * value of label nodes without a matching value node in the 'key' data binding mode
+   * @default null
+   */
+  missingValue?: number | null;
+}
+
 /**
  * resolves for the given label node its value node
  */
-export function resolve(label: ILabelNode, flat: ILabelNodes, dataTree: (IValueNode | number)[]): number {
-  const parents = parentsOf(label, flat);
+export function resolve(
+  label: ILabelNode,
+  flat: ILabelNodes,
+  dataTree: (IValueNode | number)[],
+  options: IResolveOptions = {}
+): number | null {
+  const { aggregation, dataBinding = 'index', missingValue = null } = options;
+  if (label.synthetic) {
+    // no counterpart in the data, aggregate the children
+    const values = label.children
+      .map((child) => resolve(child, flat, dataTree, options))
+      .filter((v): v is number => v != null && !Number.isNaN(v));
+    return aggregate(values, aggregation ?? 'sum');
+  }
+  const parents = dataParentsOf(label, flat);
 
-  let dataItem: IValueNode | number = {
+  let value: IValueNode | number | undefined = {
     children: dataTree,
-    value: Number.NaN,
   };
-  const dataParents = parents.map((p) => {
-    dataItem = dataItem && isValueNode(dataItem) ? dataItem.children[p.relIndex] : Number.NaN;
-    return dataItem;
-  });
+  for (let i = 0; i < parents.length; i += 1) {
+    if (value == null || !isValueNode(value)) {
+      return Number.NaN;
+    }
+    value = childOf(value, parents[i], dataBinding);
+    if (value === undefined && dataBinding === 'key') {
+      // sparse data tree, the branch is missing
+      return missingValue;
+    }
+  }
 
-  const value = dataParents[dataParents.length - 1];
   // convert to value
   if (isValueNode(value)) {
-    return value.value;
+    if (value.value == null && aggregation) {
+      // roll up the value from its children
+      return aggregate(leafValues(value), aggregation);
+    }
+    return value.value as number;
   }
-  return value;
+  return value as number;
 }
 
 /**
@@ -149,28 +908,14 @@ export function flatChildren(node: ILabelNode, flat: ILabelNodes): ILabelNodes {
   if (node.children.length === 0) {
     return [];
   }
-  const firstChild = node.children[0];
-  if (node.parent >= 0 && node.relIndex < flat[node.parent].children.length - 1) {
-    // not the last child and have parent, fast track using sibling
-    const nextSibling = flat[node.parent].children[node.relIndex + 1];
-    return flat.slice(firstChild.index, nextSibling.index);
-  }
-  // find sibling or next in the hierarchy up
-  const nextSibling = flat
-    .slice(firstChild.index + 1)
-    .find((d) => d.level < node.level || (d.parent === node.parent && d.relIndex === node.relIndex + 1));
-  if (nextSibling) {
-    return flat.slice(firstChild.index, nextSibling.index);
-  }
-  // no sibling found = till end
-  return flat.slice(firstChild.index);
+  return flat.slice(node.index + 1, node.endIndex);
 }
 
 export function determineVisible(flat: ILabelNodes): ILabelNodes {
   const focus = flat.find((d) => d.expand === 'focus');
 
   if (focus) {
-    return flat.slice(focus.index + 1).filter((d) => !d.hidden && parentsOf(d, flat).includes(focus));
+    return flat.slice(focus.index + 1, focus.endIndex).filter((d) => !d.hidden);
   }
   // the real labels are the one not hidden in the tree
   return flat.filter((d) => !d.hidden);
@@ -199,24 +944,27 @@ export function spanLogic(
   }
   const firstChild = node.children[0];
   const lastChild = node.children[node.children.length - 1];
-  const flatSubTree = flatChildren(node, flat);
 
-  const leftVisible = flatSubTree.find((d) => visibleNodes.has(d));
-  const rightVisible = flatSubTree
-    .slice()
-    .reverse()
-    .find((d) => visibleNodes.has(d));
+  // fast path: the outer most expanded grand children, otherwise (e.g. focus within the sub tree) search
+  let leftVisible: ILabelNode | undefined = leftMost(firstChild);
+  let rightVisible: ILabelNode | undefined = rightMost(lastChild);
+  if (!visibleNodes.has(leftVisible) || !visibleNodes.has(rightVisible)) {
+    const flatSubTree = flatChildren(node, flat);
+    leftVisible = flatSubTree.find((d) => visibleNodes.has(d));
+    rightVisible = flatSubTree
+      .slice()
+      .reverse()
+      .find((d) => visibleNodes.has(d));
+  }
 
   if (!leftVisible || !rightVisible) {
     return false;
   }
 
-  const leftParents = parentsOf(leftVisible, flat);
-  const rightParents = parentsOf(rightVisible, flat);
   // is the left visible one also a child of my first child = whole starting range is visible?
-  const leftFirstVisible = leftParents[node.level + 1] === firstChild;
+  const leftFirstVisible = isInSubTree(leftVisible, firstChild);
   // is the right visible one also my last child = whole end range is visible?
-  const rightLastVisible = rightParents[node.level + 1] === lastChild;
+  const rightLastVisible = isInSubTree(rightVisible, lastChild);
 
   const hasCollapseBox = leftFirstVisible && node.expand !== 'focus';
   const hasFocusBox = leftFirstVisible && rightLastVisible && node.children.length > 1;
@@ -226,7 +974,12 @@ export function spanLogic(
   switch (groupLabelPosition) {
     case 'between-first-and-second':
       {
-        const nextVisible = flat.slice(leftVisible.index + 1, rightVisible.index + 1).find((d) => visibleNodes.has(d));
+        // the left visible one is collapsed, so the next one follows its sub tree
+        const next = leftVisible.endIndex <= rightVisible.index ? leftMost(flat[leftVisible.endIndex]) : undefined;
+        const nextVisible =
+          next && visibleNodes.has(next)
+            ? next
+            : flat.slice(leftVisible.index + 1, rightVisible.index + 1).find((d) => visibleNodes.has(d));
         groupLabelCenter = !nextVisible ? leftVisible.center : (leftVisible.center + nextVisible.center) / 2;
       }
       break;